@@ -44,8 +44,8 @@ async function main() {
   } catch (error) {
     console.error("\n❌❌❌ Application Initialization Failed ❌❌❌");
     // createEnvAsync rejects on validation failure or fatal sync errors
-    // Error details are already logged to console by the library
-    // console.error(error); // Optionally log the error object itself
+    // Validation failures reject with an EnvValidationError holding the details
+    console.error(error instanceof Error ? error.message : error);
     process.exit(1);
   }
 }
@@ -40,8 +40,8 @@ function main() {
   } catch (error: any) {
     // Use any for error type safety, or a more specific error type if defined
     // createEnv throws on validation failure
+    // The message of the thrown EnvValidationError lists every issue found
     console.error("Application failed to start:", error.message);
-    // createEnv itself logs the detailed Zod errors to console.error already
     process.exit(1); // Exit with error code
   }
 }
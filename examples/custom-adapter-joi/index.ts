@@ -44,8 +44,8 @@ function main() {
   } catch (error) {
     console.error("\n❌❌❌ Application Initialization Failed (Joi) ❌❌❌");
     // createEnv rejects on validation failure
-    // Error details (already formatted by the adapter and logged by schema-env)
-    // console.error(error); // Optionally log the raw error
+    // Error details (formatted from the adapter's issues) are in the error message
+    console.error(error instanceof Error ? error.message : error);
     process.exit(1);
   }
 }
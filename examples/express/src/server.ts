@@ -24,7 +24,8 @@ try {
 } catch (error: any) {
   // Use any for error type safety
   console.error("❌ Fatal: Environment validation failed.");
-  // Error details are already logged by createEnv
+  // The thrown EnvValidationError carries the formatted details
+  console.error(error.message);
   process.exit(1);
 }
 
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+// File: src/bin.ts
+
+import { runCli } from "./cli.js";
+
+runCli(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
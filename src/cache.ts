@@ -0,0 +1,145 @@
+// File: src/cache.ts
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+} from "node:crypto";
+import fs from "node:fs/promises";
+import nodePath from "node:path";
+
+// --- Type Definitions ---
+
+/** Options for the `secretsCache` option of `createEnvAsync`. */
+export interface SecretsCacheOptions {
+  /**
+   * Path of the cache file, e.g. `.cache/schema-env-secrets`.
+   * Created on first write (readable by the owner only), along with missing directories.
+   */
+  path: string;
+  /** How long fetched secrets are reused without calling their source again, in milliseconds. */
+  ttlMs: number;
+  /**
+   * Optional: Name of the variable (in the runtime environment or the `.env` files) holding the
+   * encryption key. Any string works: the cipher key is derived from it with scrypt and a
+   * random salt, which slows down guessing, but a long random value is still best. Without a key,
+   * the cache is skipped with a warning. Defaults to `"SCHEMA_ENV_CACHE_KEY"`.
+   */
+  keyEnvVar?: string;
+  /**
+   * Optional: When a source fails, fall back to its expired cached values (with a warning)
+   * instead of treating it as failed. Defaults to `true`.
+   */
+  staleIfError?: boolean;
+  /**
+   * Optional: Oldest cached values, by time since they were fetched, that `staleIfError`
+   * may fall back to, in milliseconds. Defaults to no limit.
+   */
+  maxStaleMs?: number;
+}
+
+/**
+ * The cached result of one secrets source.
+ * @internal
+ */
+export interface SecretsCacheEntry {
+  /** When the values were fetched, in milliseconds since the epoch. */
+  fetchedAt: number;
+  values: Record<string, string | undefined>;
+}
+
+/** On-disk format: the entries as JSON, encrypted with AES-256-GCM. */
+interface SecretsCacheFile {
+  version: number;
+  /** Salt for deriving the cipher key from the configured key string. */
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// Version 1 files used an unsalted SHA-256 key, and are no longer read
+const CACHE_FILE_VERSION = 2;
+const CIPHER = "aes-256-gcm";
+
+// --- Internal Helper Functions ---
+
+/**
+ * Derives the 256-bit cipher key from the configured key string with scrypt.
+ * @internal
+ */
+function _deriveKey(key: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(key, salt, 32, (error, derivedKey) =>
+      error ? reject(error) : resolve(derivedKey)
+    );
+  });
+}
+
+/**
+ * Reads and decrypts the cache file. Returns no entries if the file does not exist.
+ * Throws if the file cannot be read, is malformed, or was written with another key.
+ * @internal
+ */
+export async function _readSecretsCache(
+  path: string,
+  key: string
+): Promise<Record<string, SecretsCacheEntry>> {
+  let text: string;
+  try {
+    text = await fs.readFile(path, { encoding: "utf8" });
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw e;
+  }
+
+  const file = JSON.parse(text) as SecretsCacheFile;
+  if (file.version !== CACHE_FILE_VERSION) {
+    throw new Error(`Unsupported cache file version ${String(file.version)}`);
+  }
+  const decipher = createDecipheriv(
+    CIPHER,
+    await _deriveKey(key, Buffer.from(file.salt, "base64")),
+    Buffer.from(file.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+  const json = Buffer.concat([
+    decipher.update(Buffer.from(file.data, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+  return JSON.parse(json) as Record<string, SecretsCacheEntry>;
+}
+
+/**
+ * Encrypts and writes the cache file, replacing it atomically.
+ * @internal
+ */
+export async function _writeSecretsCache(
+  path: string,
+  key: string,
+  entries: Record<string, SecretsCacheEntry>
+): Promise<void> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, await _deriveKey(key, salt), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(entries), "utf8"),
+    cipher.final(),
+  ]);
+  const file: SecretsCacheFile = {
+    version: CACHE_FILE_VERSION,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+
+  await fs.mkdir(nodePath.dirname(path), { recursive: true });
+  // Write next to the target, then rename, so readers never see a partial file
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(file), { mode: 0o600 });
+  await fs.rename(tempPath, path);
+}
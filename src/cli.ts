@@ -0,0 +1,417 @@
+// File: src/cli.ts
+
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { ZodObject } from "zod";
+import {
+  createEnv,
+  EnvValidationError,
+  checkEnvExample,
+  generateEnvDocs,
+  generateEnvExample,
+  type ValidatorAdapter,
+} from "./index.js";
+
+// --- Type Definitions ---
+
+/** I/O used by the CLI. Injectable for testing. */
+export interface CliIo {
+  /** Writes normal output. Defaults to `process.stdout`. */
+  stdout: (text: string) => void;
+  /** Writes diagnostics. Defaults to `process.stderr`. */
+  stderr: (text: string) => void;
+  /** Directory that relative paths are resolved against. Defaults to `process.cwd()`. */
+  cwd: string;
+  /** Imports the schema module. Defaults to a dynamic `import()` of the resolved path. */
+  importModule: (modulePath: string) => Promise<Record<string, unknown>>;
+}
+
+/** Process exit codes used by the CLI. */
+export const CLI_EXIT_CODES = {
+  /** The command succeeded. */
+  success: 0,
+  /** The environment (or file) failed the check. */
+  failure: 1,
+  /** Invalid usage, or the schema module could not be loaded. */
+  usage: 2,
+} as const;
+
+/** Error for invalid CLI usage. Reported with the usage text. @internal */
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+/** Error for a schema module that cannot be imported. @internal */
+class CliSchemaLoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliSchemaLoadError";
+  }
+}
+
+/** The validation target found in a schema module. @internal */
+type SchemaTarget =
+  | { schema: ZodObject<never> }
+  | { validator: ValidatorAdapter<unknown> };
+
+const USAGE = `Usage: schema-env <command> [options]
+
+Commands:
+  check      Validate environment files against a schema module
+  example    Generate (or, with --check, verify) a .env.example file from a Zod schema module
+  docs       Generate an environment variable reference (Markdown or JSON) from a Zod schema module
+
+Options:
+  --schema <path>      Module exporting a Zod object schema or a ValidatorAdapter (required)
+  --export <name>      Named export to use (default: the default export, then the first schema found)
+  -h, --help           Show this help
+
+Options for check:
+  --env-file <path>    .env file to load; repeat for several files (default: ./.env)
+  --node-env <env>     NODE_ENV to validate for; also loads ./.env.<env>
+  --expand             Expand variables in .env files
+
+Options for example:
+  --out <path>         File to write, or "-" for stdout (default: ./.env.example)
+  --check              Report drift between the existing --out file and the schema instead of writing
+  --sensitive <key>    Key holding a sensitive value, whose default is never written; repeat for several keys
+
+Options for docs:
+  --format <format>    "markdown" or "json" (default: markdown)
+  --sensitive <key>    Key holding a sensitive value; repeat for several keys
+  --title <title>      Markdown heading written above the table
+  --out <path>         File to write (default: stdout)
+`;
+
+// --- Internal Helper Functions ---
+
+/**
+ * Picks the Zod schema or validator adapter from a loaded module.
+ * Uses the named export if given, else the default export, else the first matching export.
+ * @internal
+ */
+function _findSchemaTarget(
+  moduleExports: Record<string, unknown>,
+  exportName: string | undefined
+): SchemaTarget {
+  const toTarget = (value: unknown): SchemaTarget | undefined => {
+    if (value instanceof ZodObject) {
+      return { schema: value as ZodObject<never> };
+    }
+    if (
+      typeof value === "object" &&
+      value !== null &&
+      typeof (value as ValidatorAdapter<unknown>).validate === "function"
+    ) {
+      return { validator: value as ValidatorAdapter<unknown> };
+    }
+    return undefined;
+  };
+
+  if (exportName !== undefined) {
+    const target = toTarget(moduleExports[exportName]);
+    if (!target) {
+      throw new CliUsageError(
+        `Export '${exportName}' is not a Zod object schema or a ValidatorAdapter.`
+      );
+    }
+    return target;
+  }
+
+  const target =
+    toTarget(moduleExports.default) ??
+    Object.values(moduleExports).map(toTarget).find(Boolean);
+  if (!target) {
+    throw new CliUsageError(
+      "No Zod object schema or ValidatorAdapter export found in the schema module."
+    );
+  }
+  return target;
+}
+
+/**
+ * Imports the `--schema` module and picks the validation target from it.
+ * @internal
+ */
+async function _loadSchemaTarget(
+  schemaOption: string | undefined,
+  exportName: string | undefined,
+  io: CliIo
+): Promise<SchemaTarget> {
+  if (!schemaOption) {
+    throw new CliUsageError("Missing required option --schema.");
+  }
+
+  const schemaPath = path.resolve(io.cwd, schemaOption);
+  let moduleExports: Record<string, unknown>;
+  try {
+    moduleExports = await io.importModule(schemaPath);
+  } catch (error) {
+    throw new CliSchemaLoadError(
+      `Failed to load schema module ${schemaPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  return _findSchemaTarget(moduleExports, exportName);
+}
+
+/**
+ * Implements `schema-env check`.
+ * @internal
+ */
+async function _runCheck(args: string[], io: CliIo): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      schema: { type: "string" },
+      export: { type: "string" },
+      "env-file": { type: "string", multiple: true },
+      "node-env": { type: "string" },
+      expand: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    io.stdout(USAGE);
+    return CLI_EXIT_CODES.success;
+  }
+
+  const target = await _loadSchemaTarget(values.schema, values.export, io);
+
+  const envFiles = values["env-file"]?.map((file) =>
+    path.resolve(io.cwd, file)
+  );
+
+  try {
+    const nodeEnv = values["node-env"];
+    createEnv({
+      ...target,
+      dotEnvPath: envFiles ?? path.resolve(io.cwd, ".env"),
+      // Resolve the environment-specific file (./.env.<env>) against io.cwd as well
+      fileSystem: {
+        readFile: (file) =>
+          fs.readFileSync(path.resolve(io.cwd, file), { encoding: "utf8" }),
+        exists: (file) => fs.existsSync(path.resolve(io.cwd, file)),
+      },
+      expandVariables: values.expand,
+      runtimeEnv:
+        nodeEnv === undefined
+          ? undefined
+          : { ...process.env, NODE_ENV: nodeEnv },
+    });
+  } catch (error) {
+    if (error instanceof EnvValidationError) {
+      io.stderr(`${error.formattedMessage}\n`);
+      return CLI_EXIT_CODES.failure;
+    }
+    throw error;
+  }
+
+  io.stdout("✅ Environment is valid.\n");
+  return CLI_EXIT_CODES.success;
+}
+
+/**
+ * Implements `schema-env example --check`.
+ * @internal
+ */
+function _checkExample(
+  schema: ZodObject<never>,
+  examplePath: string,
+  sensitive: string[] | undefined,
+  io: CliIo
+): number {
+  const result = checkEnvExample(schema, { path: examplePath, sensitive });
+  if (result.inSync) {
+    io.stdout(`✅ ${examplePath} matches the schema.\n`);
+    return CLI_EXIT_CODES.success;
+  }
+
+  const lines = [
+    ...result.missing.map(
+      (name) => `  - ${name}: Missing from the example file`
+    ),
+    ...result.extra.map((name) => `  - ${name}: Not declared in the schema`),
+    ...result.defaultMismatches.map(
+      ({ name, schemaDefault, exampleValue }) =>
+        `  - ${name}: Schema default "${schemaDefault}" differs from example value "${exampleValue}"`
+    ),
+  ];
+  io.stderr(
+    `❌ ${examplePath} is out of sync with the schema:\n${lines.join("\n")}\n`
+  );
+  return CLI_EXIT_CODES.failure;
+}
+
+/**
+ * Implements `schema-env example`.
+ * @internal
+ */
+async function _runExample(args: string[], io: CliIo): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      schema: { type: "string" },
+      export: { type: "string" },
+      out: { type: "string", default: ".env.example" },
+      check: { type: "boolean", default: false },
+      sensitive: { type: "string", multiple: true },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    io.stdout(USAGE);
+    return CLI_EXIT_CODES.success;
+  }
+
+  const target = await _loadSchemaTarget(values.schema, values.export, io);
+  if (!("schema" in target)) {
+    throw new CliUsageError(
+      "The example command requires a Zod object schema, not a ValidatorAdapter."
+    );
+  }
+
+  if (values.check) {
+    return _checkExample(
+      target.schema,
+      path.resolve(io.cwd, values.out),
+      values.sensitive,
+      io
+    );
+  }
+
+  const contents = generateEnvExample(target.schema, {
+    sensitive: values.sensitive,
+  });
+  if (values.out === "-") {
+    io.stdout(contents);
+  } else {
+    const outPath = path.resolve(io.cwd, values.out);
+    fs.writeFileSync(outPath, contents);
+    io.stdout(`✅ Wrote ${outPath}\n`);
+  }
+  return CLI_EXIT_CODES.success;
+}
+
+/**
+ * Implements `schema-env docs`.
+ * @internal
+ */
+async function _runDocs(args: string[], io: CliIo): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      schema: { type: "string" },
+      export: { type: "string" },
+      format: { type: "string", default: "markdown" },
+      sensitive: { type: "string", multiple: true },
+      title: { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    io.stdout(USAGE);
+    return CLI_EXIT_CODES.success;
+  }
+  if (values.format !== "markdown" && values.format !== "json") {
+    throw new CliUsageError(
+      `Invalid --format '${values.format}'. Expected "markdown" or "json".`
+    );
+  }
+
+  const target = await _loadSchemaTarget(values.schema, values.export, io);
+  if (!("schema" in target)) {
+    throw new CliUsageError(
+      "The docs command requires a Zod object schema, not a ValidatorAdapter."
+    );
+  }
+
+  const contents = generateEnvDocs(target.schema, {
+    format: values.format,
+    sensitive: values.sensitive,
+    title: values.title,
+  });
+  if (values.out === undefined || values.out === "-") {
+    io.stdout(contents);
+  } else {
+    const outPath = path.resolve(io.cwd, values.out);
+    fs.writeFileSync(outPath, contents);
+    io.stdout(`✅ Wrote ${outPath}\n`);
+  }
+  return CLI_EXIT_CODES.success;
+}
+
+// --- Public API ---
+
+/**
+ * Runs the `schema-env` command-line tool.
+ *
+ * @example
+ * ```sh
+ * schema-env check --schema ./dist/env.js --env-file .env --env-file .env.deploy --node-env production
+ * ```
+ *
+ * @param argv - Command-line arguments, without the `node` and script paths.
+ * @param io - Optional I/O overrides (mainly for testing).
+ * @returns {Promise<number>} The process exit code (see `CLI_EXIT_CODES`).
+ */
+export async function runCli(
+  argv: string[],
+  io: Partial<CliIo> = {}
+): Promise<number> {
+  const resolvedIo: CliIo = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    cwd: process.cwd(),
+    importModule: (modulePath) => import(pathToFileURL(modulePath).href),
+    ...io,
+  };
+  const [command, ...args] = argv;
+
+  if (command === undefined || command === "-h" || command === "--help") {
+    resolvedIo.stdout(USAGE);
+    return command === undefined
+      ? CLI_EXIT_CODES.usage
+      : CLI_EXIT_CODES.success;
+  }
+
+  try {
+    switch (command) {
+      case "check":
+        return await _runCheck(args, resolvedIo);
+      case "example":
+        return await _runExample(args, resolvedIo);
+      case "docs":
+        return await _runDocs(args, resolvedIo);
+      default:
+        throw new CliUsageError(`Unknown command '${command}'.`);
+    }
+  } catch (error) {
+    // parseArgs reports unknown/invalid options as errors with an ERR_PARSE_ARGS_* code
+    const isParseError = String(
+      (error as NodeJS.ErrnoException | undefined)?.code
+    ).startsWith("ERR_PARSE_ARGS");
+    if (error instanceof CliUsageError || isParseError) {
+      resolvedIo.stderr(`❌ ${(error as Error).message}\n\n${USAGE}`);
+      return CLI_EXIT_CODES.usage;
+    }
+    if (error instanceof CliSchemaLoadError) {
+      resolvedIo.stderr(`❌ ${error.message}\n`);
+      return CLI_EXIT_CODES.usage;
+    }
+    resolvedIo.stderr(
+      `❌ ${error instanceof Error ? error.message : String(error)}\n`
+    );
+    return CLI_EXIT_CODES.failure;
+  }
+}
@@ -0,0 +1,153 @@
+// File: src/docs.ts
+
+import { z } from "zod";
+import { _describeEnvSchema } from "./introspect.js";
+
+// --- Type Definitions ---
+
+/** Output formats supported by `generateEnvDocs`. */
+export type EnvDocsFormat = "markdown" | "json";
+
+/** Options for `generateEnvDocs`. */
+export interface GenerateEnvDocsOptions {
+  /** Optional: Output format. Defaults to `"markdown"`. */
+  format?: EnvDocsFormat;
+  /**
+   * Optional: Keys holding sensitive values (passwords, tokens, ...), in addition to
+   * those marked with `sensitive()` in the schema.
+   * They are flagged in the output and their defaults are never printed.
+   */
+  sensitive?: string[];
+  /** Optional: Markdown heading written above the table. Omitted by default. */
+  title?: string;
+}
+
+/** Documentation for one environment variable, as emitted in the JSON format. */
+export interface EnvVariableDoc {
+  /** The variable name. */
+  name: string;
+  /** The value type, e.g. `string`, `number`, `boolean`, `enum`. */
+  type: string;
+  /** `true` if the variable must be supplied (it is neither optional nor defaulted). */
+  required: boolean;
+  /** The default value as it would be written in a `.env` file (omitted for sensitive keys). */
+  default?: string;
+  /** Text passed to `.describe()`, if any. */
+  description?: string;
+  /** Allowed values for enums and literals. */
+  allowedValues?: string[];
+  /** `true` if the variable holds a sensitive value. */
+  sensitive: boolean;
+}
+
+const SENSITIVE_DEFAULT_PLACEHOLDER = "(hidden)";
+
+// --- Internal Helper Functions ---
+
+/**
+ * Builds the documentation entries for every variable in the schema.
+ * @internal
+ */
+function _buildVariableDocs(
+  schema: z.AnyZodObject,
+  sensitive: string[]
+): EnvVariableDoc[] {
+  const sensitiveKeys = new Set(sensitive);
+  return _describeEnvSchema(schema).map((info) => {
+    const isSensitive = info.sensitive || sensitiveKeys.has(info.name);
+    const doc: EnvVariableDoc = {
+      name: info.name,
+      type: info.type,
+      required: info.required,
+      sensitive: isSensitive,
+    };
+    if (info.hasDefault) {
+      doc.default = isSensitive
+        ? SENSITIVE_DEFAULT_PLACEHOLDER
+        : typeof info.defaultValue === "object" && info.defaultValue !== null
+          ? JSON.stringify(info.defaultValue)
+          : String(info.defaultValue);
+    }
+    if (info.description !== undefined) {
+      doc.description = info.description;
+    }
+    if (info.allowedValues) {
+      doc.allowedValues = info.allowedValues;
+    }
+    return doc;
+  });
+}
+
+/**
+ * Escapes text for use inside a Markdown table cell.
+ * @internal
+ */
+function _markdownCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Renders variable docs as a Markdown table.
+ * @internal
+ */
+function _renderMarkdown(docs: EnvVariableDoc[], title?: string): string {
+  const rows = docs.map((doc) =>
+    [
+      `\`${doc.name}\``,
+      _markdownCell(doc.type),
+      doc.required ? "Yes" : "No",
+      doc.default !== undefined
+        ? doc.sensitive
+          ? doc.default
+          : `\`${_markdownCell(doc.default)}\``
+        : "",
+      _markdownCell(doc.description ?? ""),
+      (doc.allowedValues ?? [])
+        .map((value) => `\`${_markdownCell(value)}\``)
+        .join(", "),
+      doc.sensitive ? "Yes" : "No",
+    ]
+      .map((cell) => (cell === "" ? " " : ` ${cell} `))
+      .join("|")
+  );
+
+  const table = [
+    "| Name | Type | Required | Default | Description | Allowed values | Sensitive |",
+    "| --- | --- | --- | --- | --- | --- | --- |",
+    ...rows.map((row) => `|${row}|`),
+  ].join("\n");
+
+  return title ? `# ${title}\n\n${table}\n` : `${table}\n`;
+}
+
+// --- Public API ---
+
+/**
+ * Generates an environment variable reference from a Zod object schema.
+ *
+ * For each variable: name, type, whether it is required, default, `.describe()` text,
+ * allowed values (enums/literals) and whether it is sensitive.
+ * Rendered as a Markdown table (default) or as JSON (`{ "variables": [...] }`).
+ *
+ * @example
+ * ```js
+ * fs.writeFileSync("ENVIRONMENT.md", generateEnvDocs(envSchema, { sensitive: ["API_KEY"] }));
+ * fs.writeFileSync("env.json", generateEnvDocs(envSchema, { format: "json" }));
+ * ```
+ *
+ * @param schema - The Zod object schema passed to `createEnv`.
+ * @param options - Optional format and sensitive keys.
+ * @returns {string} The rendered documentation.
+ */
+export function generateEnvDocs(
+  schema: z.AnyZodObject,
+  options: GenerateEnvDocsOptions = {}
+): string {
+  const { format = "markdown", sensitive = [], title } = options;
+  const docs = _buildVariableDocs(schema, sensitive);
+
+  if (format === "json") {
+    return `${JSON.stringify({ variables: docs }, null, 2)}\n`;
+  }
+  return _renderMarkdown(docs, title);
+}
@@ -0,0 +1,252 @@
+// File: src/example.ts
+
+import fs from "node:fs";
+import dotenv from "dotenv";
+import { z } from "zod";
+import { _describeEnvSchema, type EnvVariableInfo } from "./introspect.js";
+
+// --- Type Definitions ---
+
+/** Options for `generateEnvExample`. */
+export interface GenerateEnvExampleOptions {
+  /**
+   * Optional: Comment written at the top of the file. Each line is prefixed with `# `.
+   * Defaults to a note that the file is generated. Set to `false` to omit it.
+   */
+  header?: string | false;
+  /**
+   * Optional: Keys holding sensitive values (passwords, tokens, ...), in addition to
+   * those marked with `sensitive()` in the schema. Their defaults are never written.
+   */
+  sensitive?: string[];
+}
+
+/** Options for `checkEnvExample`. */
+export interface CheckEnvExampleOptions {
+  /** Optional: Path of the example file to check. Defaults to `./.env.example`. */
+  path?: string;
+  /**
+   * Optional: Keys holding sensitive values, in addition to those marked with `sensitive()`
+   * in the schema. Their example values are not compared with the schema default.
+   */
+  sensitive?: string[];
+}
+
+/** A variable whose value in the example file differs from the schema default. */
+export interface EnvExampleDefaultMismatch {
+  /** The variable name. */
+  name: string;
+  /** The schema default, formatted as it would be written to a `.env` file (unquoted). */
+  schemaDefault: string;
+  /** The value found in the example file. */
+  exampleValue: string;
+}
+
+/** The result of `checkEnvExample`. */
+export interface EnvExampleCheckResult {
+  /** `true` if the example file matches the schema (all lists below are empty). */
+  inSync: boolean;
+  /** Keys declared in the schema but missing from the example file. */
+  missing: string[];
+  /** Keys in the example file that the schema does not declare. */
+  extra: string[];
+  /** Keys whose example value disagrees with the schema default. */
+  defaultMismatches: EnvExampleDefaultMismatch[];
+}
+
+const SENSITIVE_DEFAULT_PLACEHOLDER = "(hidden)";
+
+const DEFAULT_HEADER =
+  "Generated by schema-env from the environment schema.\nCopy to .env and fill in the required values.";
+
+// --- Internal Helper Functions ---
+
+/**
+ * Formats a value for a `.env` file, quoting it when dotenv would otherwise misread it.
+ * @internal
+ */
+function _formatDotEnvValue(value: unknown): string {
+  const text = _stringifyDefault(value);
+  // Quote values that contain whitespace at the edges, comments, quotes or newlines
+  if (!/^\s|\s$|[#"'`\n\r]/.test(text)) {
+    return text;
+  }
+  // dotenv has no escape for quotes, so use a quote character the value doesn't contain
+  if (!text.includes('"')) {
+    // Only double-quoted values support \n escapes
+    return `"${text.replace(/\r?\n/g, "\\n")}"`;
+  }
+  const quote = ["'", "`"].find((char) => !text.includes(char)) ?? "'";
+  return `${quote}${text}${quote}`;
+}
+
+/**
+ * Converts a default value to the text a `.env` file would hold for it (before quoting).
+ * @internal
+ */
+function _stringifyDefault(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Describes the schema variables, flagging those listed in `sensitive` as sensitive too.
+ * @internal
+ */
+function _describeExampleVariables(
+  schema: z.AnyZodObject,
+  sensitive: string[]
+): EnvVariableInfo[] {
+  const sensitiveKeys = new Set(sensitive);
+  return _describeEnvSchema(schema).map((info) => ({
+    ...info,
+    sensitive: info.sensitive || sensitiveKeys.has(info.name),
+  }));
+}
+
+/**
+ * Builds the comment lines describing one variable.
+ * @internal
+ */
+function _exampleComment(info: EnvVariableInfo): string[] {
+  const lines = (info.description ?? "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map((line) => `# ${line}`);
+
+  const details = [
+    `type: ${info.type}`,
+    info.required ? "required" : "optional",
+  ];
+  if (info.hasDefault) {
+    details.push(
+      `default: ${
+        info.sensitive
+          ? SENSITIVE_DEFAULT_PLACEHOLDER
+          : _formatDotEnvValue(info.defaultValue)
+      }`
+    );
+  }
+  if (info.allowedValues) {
+    details.push(`one of: ${info.allowedValues.join(" | ")}`);
+  }
+  lines.push(`# (${details.join(", ")})`);
+  return lines;
+}
+
+// --- Public API ---
+
+/**
+ * Generates the contents of a `.env.example` file from a Zod object schema.
+ *
+ * Every key is listed in declaration order with its `.describe()` text as a comment,
+ * its type, whether it is required, its default value and, for enums, the allowed values.
+ * Keys with a default are written with that default as their value; other keys are left empty.
+ * Sensitive keys are always left empty, and their default is shown as `(hidden)`.
+ *
+ * @example
+ * ```js
+ * import fs from "node:fs";
+ * fs.writeFileSync(".env.example", generateEnvExample(envSchema));
+ * ```
+ *
+ * @param schema - The Zod object schema passed to `createEnv`.
+ * @param options - Optional generation settings.
+ * @returns {string} The `.env.example` file contents.
+ */
+export function generateEnvExample(
+  schema: z.AnyZodObject,
+  options: GenerateEnvExampleOptions = {}
+): string {
+  const { header = DEFAULT_HEADER, sensitive = [] } = options;
+  const blocks: string[] = [];
+
+  if (header !== false) {
+    blocks.push(
+      header
+        .split(/\r?\n/)
+        .map((line) => `# ${line}`.trimEnd())
+        .join("\n")
+    );
+  }
+
+  for (const info of _describeExampleVariables(schema, sensitive)) {
+    const value =
+      info.hasDefault && !info.sensitive
+        ? _formatDotEnvValue(info.defaultValue)
+        : "";
+    blocks.push([..._exampleComment(info), `${info.name}=${value}`].join("\n"));
+  }
+
+  return `${blocks.join("\n\n")}\n`;
+}
+
+/**
+ * Checks an existing `.env.example` file against a Zod object schema.
+ *
+ * The file is parsed with dotenv (as `.env` files are when loading the environment) and compared
+ * with the schema to find keys the example is missing, keys the schema no longer declares, and
+ * keys whose example value disagrees with the schema default. Defaults of sensitive keys are
+ * not compared, since the example file leaves them empty.
+ *
+ * @example
+ * ```js
+ * const result = checkEnvExample(envSchema);
+ * if (!result.inSync) {
+ *   console.error("Undocumented variables:", result.missing);
+ * }
+ * ```
+ *
+ * @param schema - The Zod object schema passed to `createEnv`.
+ * @param options - Optional settings, e.g. the example file `path`.
+ * @returns {EnvExampleCheckResult} The differences found.
+ * @throws {Error} If the example file cannot be read.
+ */
+export function checkEnvExample(
+  schema: z.AnyZodObject,
+  options: CheckEnvExampleOptions = {}
+): EnvExampleCheckResult {
+  const { path = "./.env.example", sensitive = [] } = options;
+
+  let example: dotenv.DotenvParseOutput;
+  try {
+    example = dotenv.parse(fs.readFileSync(path, { encoding: "utf8" }));
+  } catch (e) {
+    throw new Error(
+      `❌ Failed to load example file from ${path}: ${
+        e instanceof Error ? e.message : String(e)
+      }`,
+      { cause: e }
+    );
+  }
+
+  const variables = _describeExampleVariables(schema, sensitive);
+  const declared = new Set(variables.map((info) => info.name));
+
+  const missing = variables
+    .filter((info) => !(info.name in example))
+    .map((info) => info.name);
+  const extra = Object.keys(example).filter((name) => !declared.has(name));
+  const defaultMismatches = variables
+    .filter(
+      (info) => info.hasDefault && !info.sensitive && info.name in example
+    )
+    .map((info) => ({
+      name: info.name,
+      schemaDefault: _stringifyDefault(info.defaultValue),
+      exampleValue: example[info.name],
+    }))
+    .filter((entry) => entry.schemaDefault !== entry.exampleValue);
+
+  return {
+    inSync:
+      missing.length === 0 &&
+      extra.length === 0 &&
+      defaultMismatches.length === 0,
+    missing,
+    extra,
+    defaultMismatches,
+  };
+}
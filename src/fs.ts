@@ -0,0 +1,26 @@
+// File: src/fs.ts
+
+// --- Type Definitions ---
+
+/**
+ * File access used to load `.env` files, for the `fileSystem` option of `createEnv`.
+ * Paths are passed exactly as listed in `dotEnvPath` (or `.env.${NODE_ENV}`).
+ * It replaces how `.env` files are read; the package still imports Node's built-in modules.
+ */
+export interface EnvFileSystem {
+  /** Returns the contents of the file as text. Only called for files that exist. */
+  readFile(path: string): string;
+  /** Returns whether the file exists. Missing files are skipped. */
+  exists(path: string): boolean;
+}
+
+/**
+ * File access for the `fileSystem` option of `createEnvAsync` and `explainEnv`.
+ * Either method may return a Promise, so an `EnvFileSystem` works too.
+ */
+export interface AsyncEnvFileSystem {
+  /** Returns the contents of the file as text. Only called for files that exist. */
+  readFile(path: string): string | Promise<string>;
+  /** Returns whether the file exists. Missing files are skipped. */
+  exists(path: string): boolean | Promise<boolean>;
+}
@@ -0,0 +1,133 @@
+// File: src/http.ts
+
+import type { SecretSourceFunction } from "./index.js";
+
+// --- Type Definitions ---
+
+/** Credentials for `httpJsonSource`: a bearer token, or a user name and password (basic auth). */
+export type HttpJsonSourceAuth =
+  | { bearer: string }
+  | { username: string; password: string };
+
+/** Options for `httpJsonSource`. */
+export interface HttpJsonSourceOptions {
+  /** URL of a JSON object of keys and values, e.g. a config service or a bucket object. */
+  url: string | URL;
+  /** Optional: Sent as the `Authorization` header. */
+  auth?: HttpJsonSourceAuth;
+  /** Optional: Extra request headers. */
+  headers?: Record<string, string>;
+  /**
+   * Optional: Only keys starting with this prefix are returned, without it.
+   * E.g. `"myapp."` turns `myapp.PORT` into `PORT` and skips `otherapp.PORT`.
+   */
+  stripPrefix?: string;
+  /** Optional: Prepended to every returned key, e.g. `"REMOTE_"`. Applied after `stripPrefix`. */
+  addPrefix?: string;
+}
+
+// --- Internal Helper Functions ---
+
+/**
+ * Builds the `Authorization` header value.
+ * @internal
+ */
+function _authorizationHeader(auth: HttpJsonSourceAuth): string {
+  if ("bearer" in auth) {
+    return `Bearer ${auth.bearer}`;
+  }
+  const credentials = Buffer.from(`${auth.username}:${auth.password}`);
+  return `Basic ${credentials.toString("base64")}`;
+}
+
+/**
+ * Maps a JSON document to environment values: applies the prefixes, keeps strings,
+ * stringifies other values (objects as JSON) and skips `null`.
+ * @internal
+ */
+function _documentToEnv(
+  document: Record<string, unknown>,
+  stripPrefix: string,
+  addPrefix: string
+): Record<string, string | undefined> {
+  const values: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(document)) {
+    if (!key.startsWith(stripPrefix) || value === null) {
+      continue;
+    }
+    values[`${addPrefix}${key.slice(stripPrefix.length)}`] =
+      typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+  return values;
+}
+
+// --- Public API ---
+
+/**
+ * Creates a secrets source that fetches a JSON object of keys and values over HTTP(S)
+ * using the built-in `fetch`.
+ *
+ * The source remembers the `ETag` of the last response and sends it as `If-None-Match`;
+ * on `304 Not Modified` it returns the previous values without downloading them again.
+ * This makes repeated fetches cheap, e.g. with `createEnvAsyncLive`.
+ *
+ * @example
+ * ```js
+ * const env = await createEnvAsync({
+ *   schema,
+ *   secretsSources: [
+ *     httpJsonSource({
+ *       url: "https://config.internal/apps/myapp.json",
+ *       auth: { bearer: process.env.CONFIG_TOKEN },
+ *       stripPrefix: "myapp.",
+ *     }),
+ *   ],
+ * });
+ * ```
+ *
+ * @param options - The URL, credentials and key mapping.
+ * @returns {SecretSourceFunction} A source for the `secretsSources` option. It rejects if the
+ * server answers with an error status or with something other than a JSON object.
+ */
+export function httpJsonSource(
+  options: HttpJsonSourceOptions
+): SecretSourceFunction {
+  const { url, auth, headers, stripPrefix = "", addPrefix = "" } = options;
+  // The last response with an ETag, for conditional requests
+  let cached:
+    | { etag: string; values: Record<string, string | undefined> }
+    | undefined;
+
+  return async function http({ signal }) {
+    const response = await fetch(url, {
+      headers: {
+        Accept: "application/json",
+        ...headers,
+        ...(auth ? { Authorization: _authorizationHeader(auth) } : {}),
+        ...(cached ? { "If-None-Match": cached.etag } : {}),
+      },
+      signal,
+    });
+    if (response.status === 304 && cached) {
+      return { ...cached.values };
+    }
+    if (!response.ok) {
+      throw new Error(
+        `HTTP ${response.status} ${response.statusText} from ${String(url)}`
+      );
+    }
+
+    const document: unknown = await response.json();
+    if (!document || typeof document !== "object" || Array.isArray(document)) {
+      throw new Error(`Expected a JSON object from ${String(url)}`);
+    }
+    const values = _documentToEnv(
+      document as Record<string, unknown>,
+      stripPrefix,
+      addPrefix
+    );
+    const etag = response.headers.get("ETag");
+    cached = etag ? { etag, values } : undefined;
+    return { ...values };
+  };
+}
@@ -3,10 +3,27 @@
 // TSDoc comments updated for adapters
 
 import fs from "node:fs"; // <--- Added Node.js fs import
+import { EventEmitter } from "node:events";
+import nodePath from "node:path";
+import { fileURLToPath } from "node:url";
 import dotenv from "dotenv";
 import { expand } from "dotenv-expand";
 // Use z.AnyZodObject for constraints where appropriate
 import { z, ZodError, ZodObject } from "zod";
+import { _describeEnvSchema } from "./introspect.js";
+import {
+  _readSecretsCache,
+  _writeSecretsCache,
+  type SecretsCacheEntry,
+  type SecretsCacheOptions,
+} from "./cache.js";
+import type { AsyncEnvFileSystem, EnvFileSystem } from "./fs.js";
+import {
+  REDACTED_VALUE,
+  _isSensitiveName,
+  _redactEnv,
+  _redactMessage,
+} from "./sensitive.js";
 
 // --- Type Definitions ---
 
@@ -18,10 +35,168 @@ type DotenvExpandFunction = (
 /** Input for schema validation, potentially holding values from all sources. */
 type EnvironmentInput = Record<string, unknown>;
 
-/** Function signature for fetching secrets asynchronously. */
-export type SecretSourceFunction = () => Promise<
-  Record<string, string | undefined>
->;
+/**
+ * Where the final value of an environment variable came from.
+ * - `dotenv`: A `.env` file (including the environment-specific file), identified by its path.
+ * - `secrets`: A `secretsSources` entry, identified by its index (and its `name` or function name, if any).
+ * - `process.env`: The process environment (or the `runtimeEnv` option).
+ */
+export type EnvValueSource =
+  | { type: "dotenv"; path: string }
+  | { type: "secrets"; index: number; name?: string }
+  | { type: "process.env" };
+
+/** Maps each variable name to the source that supplied its winning value. */
+export type EnvProvenance = Record<string, EnvValueSource>;
+
+/** Values supplied by a single source, merged in load order. */
+interface EnvSourceLayer {
+  source: EnvValueSource;
+  values: Record<string, string | undefined>;
+}
+
+/** The result of merging source layers: values plus the winning source of each key. */
+interface MergedEnvironment {
+  values: EnvironmentInput;
+  provenance: EnvProvenance;
+}
+
+/** What a secrets source knows about the configuration loaded so far. */
+export interface SecretSourceContext {
+  /** Values loaded from the `.env` files (after expansion, if enabled). */
+  dotenv: Readonly<Record<string, string>>;
+  /** The runtime environment: the `runtimeEnv` option, or `process.env` by default. */
+  runtimeEnv: Readonly<Record<string, string | undefined>>;
+  /** Keys declared in the Zod `schema`. Empty when a custom `validator` is used. */
+  schemaKeys: readonly string[];
+  /**
+   * Keys declared in the Zod `schema` that neither the `.env` files nor the runtime environment supply.
+   * Empty when a custom `validator` is used.
+   */
+  missingKeys: readonly string[];
+  /**
+   * Aborted when the attempt times out or the `signal` passed to `createEnvAsync` is aborted.
+   * Pass it to `fetch` or your SDK to cancel the request.
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Function signature for fetching secrets asynchronously.
+ * Receives the loaded configuration, e.g. to read a vault address from `.env`.
+ */
+export type SecretSourceFunction = (
+  context: SecretSourceContext
+) => Promise<Record<string, string | undefined>>;
+
+/**
+ * Retry settings for secrets sources.
+ * Attempt `n` (starting at 1 for the first retry) waits
+ * `min(maxDelayMs, minDelayMs * factor ** (n - 1))`, randomized when `jitter` is enabled.
+ */
+export interface SecretsRetryOptions {
+  /** Number of retries after the first failed attempt. `0` disables retrying. */
+  retries: number;
+  /** Optional: Delay before the first retry, in milliseconds. Defaults to `100`. */
+  minDelayMs?: number;
+  /** Optional: Upper bound for any delay, in milliseconds. Defaults to `5000`. */
+  maxDelayMs?: number;
+  /** Optional: Multiplier applied to the delay after each retry. Defaults to `2`. */
+  factor?: number;
+  /**
+   * Optional: Randomize each delay between zero and its computed value ("full jitter"),
+   * so that many instances restarting together don't retry in lockstep. Defaults to `true`.
+   */
+  jitter?: boolean;
+}
+
+/** A secrets source with its own settings. */
+export interface SecretSourceConfig {
+  /**
+   * Optional: Name used in warnings, errors and provenance (e.g., `"vault"`).
+   * Defaults to the name of the `fetch` function in provenance; messages then use the index.
+   */
+  name?: string;
+  /** The function that fetches the secrets. */
+  fetch: SecretSourceFunction;
+  /**
+   * Optional: Merge priority. Sources with a higher priority override sources with a lower one;
+   * among equal priorities, later sources in the array override earlier ones. Defaults to `0`.
+   */
+  priority?: number;
+  /**
+   * Optional: The only keys this source may supply. Other keys it returns are ignored.
+   * Defaults to accepting every key.
+   */
+  keys?: string[];
+  /**
+   * Optional: If `true`, a failure of this source always rejects `createEnvAsync`
+   * with an `EnvValidationError` (`phase: "secrets"`), whatever the `secretsFailurePolicy`.
+   */
+  required?: boolean;
+  /** Optional: Per-attempt timeout in milliseconds. Overrides `secretsTimeoutMs`. */
+  timeoutMs?: number;
+  /** Optional: Retry settings. Overrides `secretsRetry`; `false` disables retrying for this source. */
+  retry?: SecretsRetryOptions | false;
+  /** Optional: Set to `false` to never store this source's values in the `secretsCache`. */
+  cache?: boolean;
+}
+
+/** A secrets source: a plain function, or a function with settings (priority 0, named after the function). */
+export type SecretSource = SecretSourceFunction | SecretSourceConfig;
+
+/**
+ * What to do when secrets sources fail (after timeouts and retries).
+ * - `warn`: Log a warning per failed source and continue with the other sources.
+ * - `fail`: Reject if any source fails.
+ * - `fail-if-all`: Reject only if every source fails; otherwise warn and continue.
+ */
+export type SecretsFailurePolicy = "warn" | "fail" | "fail-if-all";
+
+/** What a secret resolver is told about the reference it resolves. */
+export interface SecretResolverContext {
+  /** The variable holding the reference. */
+  key: string;
+  /**
+   * Aborted when the attempt times out or the `signal` passed to `createEnvAsync` is aborted.
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Resolves a secret reference, e.g. `secret://vault/kv/app#password`, to the secret itself.
+ * Registered per URI scheme with the `secretResolvers` option.
+ */
+export type SecretResolver = (
+  reference: URL,
+  context: SecretResolverContext
+) => Promise<string>;
+
+/**
+ * Reported (in warnings, and as the failure reason) when a secrets source
+ * does not settle within its timeout.
+ */
+export class SecretSourceTimeoutError extends Error {
+  /** The timeout that was exceeded, in milliseconds. */
+  readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message);
+    this.name = "SecretSourceTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error used to reject `createEnvAsync` (and `explainEnv`) when its `signal` is aborted.
+ * The abort reason is available as `cause`.
+ */
+export class EnvAbortError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "EnvAbortError";
+  }
+}
 
 // --- Validation Adapter Types (as per ADR-009) ---
 
@@ -33,6 +208,72 @@ export interface StandardizedValidationError {
   message: string;
 }
 
+/**
+ * The stage of the loading pipeline that failed.
+ * - `file-load`: A `.env` file could not be read (other than "file not found").
+ * - `secrets`: Secrets could not be fetched or resolved.
+ * - `validation`: The merged environment did not pass the schema/validator.
+ */
+export type EnvValidationPhase = "file-load" | "secrets" | "validation";
+
+/**
+ * Error thrown by `createEnv` (and used to reject `createEnvAsync`) when the
+ * environment cannot be loaded or fails validation.
+ * Carries the standardized issues so callers can inspect, serialize or render
+ * failures themselves instead of relying on console output.
+ */
+export class EnvValidationError extends Error {
+  /** The pipeline stage that failed. */
+  readonly phase: EnvValidationPhase;
+  /** Standardized issues describing each failure. */
+  readonly issues: StandardizedValidationError[];
+  /** Human-readable, multi-line summary of the issues (also used as `message`). */
+  readonly formattedMessage: string;
+  /** The winning source of each variable that had been loaded when the error occurred. */
+  readonly provenance: EnvProvenance;
+
+  constructor(
+    phase: EnvValidationPhase,
+    issues: StandardizedValidationError[],
+    formattedMessage: string,
+    options?: { cause?: unknown; provenance?: EnvProvenance }
+  ) {
+    super(formattedMessage, options);
+    this.name = "EnvValidationError";
+    this.phase = phase;
+    this.issues = issues;
+    this.formattedMessage = formattedMessage;
+    this.provenance = options?.provenance ?? {};
+  }
+
+  /**
+   * Returns a plain, JSON-serializable representation of the error.
+   * `provenance` is limited to the variables referenced by `issues`.
+   */
+  toJSON(): {
+    name: string;
+    phase: EnvValidationPhase;
+    message: string;
+    issues: StandardizedValidationError[];
+    provenance: EnvProvenance;
+  } {
+    const provenance: EnvProvenance = {};
+    for (const issue of this.issues) {
+      const key = issue.path.length > 0 ? String(issue.path[0]) : undefined;
+      if (key !== undefined && this.provenance[key]) {
+        provenance[key] = this.provenance[key];
+      }
+    }
+    return {
+      name: this.name,
+      phase: this.phase,
+      message: this.formattedMessage,
+      issues: this.issues,
+      provenance,
+    };
+  }
+}
+
 /** Standardized result structure for validation adapters. */
 export type ValidationResult<TResult> =
   | { success: true; data: TResult }
@@ -93,7 +334,7 @@ interface CreateEnvBaseOptions<
    * - Set to `false` to disable loading all .env files (including the environment-specific one).
    *
    * Note on Environment-Specific File: Regardless of whether a single path or an array
-   * is provided (unless `dotEnvPath` is `false`), if `process.env.NODE_ENV` is set,
+   * is provided (unless `dotEnvPath` is `false`), if `NODE_ENV` is set (in `runtimeEnv`, or `process.env`),
    * an attempt will be made to load an environment-specific file (e.g., `.env.development`)
    * *after* all files specified in `dotEnvPath` have been loaded. This environment-specific
    * file will override variables from the files specified in `dotEnvPath`.
@@ -109,6 +350,67 @@ interface CreateEnvBaseOptions<
    */
   expandVariables?: boolean;
 
+  /**
+   * Optional: Keys holding sensitive values (e.g., `['DATABASE_URL', 'API_KEY']`).
+   * Keys whose schema type is marked with `sensitive()` are included automatically.
+   * Their values are redacted when the returned object is logged (`util.inspect`/`console.log`),
+   * serialized (`JSON.stringify`) or converted with `toString()`, and are never echoed
+   * in validation error messages. Reading `env.API_KEY` still returns the real value.
+   * With a `nestingDelimiter`, name a nested value by its variable (`DB__PASS`), or a whole
+   * group by its name (`DB`).
+   */
+  sensitive?: string[];
+
+  /**
+   * Optional: Only consider variables whose name starts with this prefix, from every source,
+   * and strip it before validation. With `prefix: "BILLING_"`, the schema declares `PORT` and
+   * the environment supplies `BILLING_PORT`. Validation errors name the full variable
+   * (`BILLING_PORT`). Keys in `sensitive` are given without the prefix.
+   * Secrets sources and secret references still use the full names.
+   */
+  prefix?: string;
+
+  /**
+   * Optional: Delimiter that nests variables before validation, so the schema can use nested
+   * objects. With `nestingDelimiter: "__"`, `DB__HOST` and `DB__PORT` become
+   * `{ DB: { HOST, PORT } }`. Validation errors name the original variables (`DB__PORT`).
+   * Applied after `prefix` is stripped. Disabled by default.
+   *
+   * @example
+   * ```js
+   * createEnv({
+   *   schema: z.object({ DB: z.object({ HOST: z.string(), PORT: z.coerce.number() }) }),
+   *   nestingDelimiter: "__",
+   * })
+   * ```
+   */
+  nestingDelimiter?: string;
+
+  /**
+   * Optional: The runtime environment, used in place of `process.env` both as the
+   * highest-priority source and to read `NODE_ENV` (which selects the environment-specific
+   * `.env` file). Pass bindings on runtimes without `process.env` (e.g., Cloudflare Workers,
+   * `Deno.env.toObject()`), or a plain object in tests. Values from it are reported with the
+   * `"process.env"` source type. Defaults to `process.env`.
+   */
+  runtimeEnv?: Record<string, string | undefined>;
+
+  /**
+   * Optional: File access used to load the `.env` files (`readFile` and `exists`), e.g.
+   * in-memory files in tests or a virtual file system in bundled apps. Defaults to `node:fs`.
+   * `createEnvAsync` also accepts methods returning Promises.
+   *
+   * @example
+   * ```js
+   * const files = { "./.env": "PORT=3000" };
+   * createEnv({
+   *   schema,
+   *   fileSystem: { readFile: (path) => files[path], exists: (path) => path in files },
+   * })
+   * ```
+   */
+  fileSystem?: EnvFileSystem;
+
   // Removed _internalDotenvConfig
   /** @internal */
   _internalDotenvExpand?: DotenvExpandFunction;
@@ -129,6 +431,46 @@ export type CreateEnvOptions<
   TResult = TSchema extends z.AnyZodObject ? z.infer<TSchema> : unknown,
 > = CreateEnvBaseOptions<TSchema, TResult>;
 
+/**
+ * Options for `createEnv` with separate server and client schemas, for env modules shared
+ * between a Node server and a browser bundle. Accepts the other options of `createEnv`.
+ *
+ * @template TServer The Zod object schema of the server-only variables.
+ * @template TClient The Zod object schema of the variables exposed to the client.
+ */
+export type CreateSplitEnvOptions<
+  TServer extends z.AnyZodObject,
+  TClient extends z.AnyZodObject,
+> = Omit<CreateEnvOptions<undefined, unknown>, "schema" | "validator"> & {
+  /** Server-only variables (secrets, internal URLs). Their names must not start with `clientPrefix`. */
+  server: TServer;
+  /** Variables safe to expose to the browser. Their names must start with `clientPrefix`. */
+  client: TClient;
+  /**
+   * Prefix marking client variables, e.g. `"PUBLIC_"` or `"VITE_"`, so that secrets
+   * cannot end up in the client schema by mistake.
+   */
+  clientPrefix: string;
+  /**
+   * Optional: Whether the code runs on the server. Defaults to `true` unless a global
+   * `window` exists. On the client, `runtimeEnv` is required (e.g. `import.meta.env`),
+   * since there is no `process.env`, and `dotEnvPath` defaults to `false`.
+   */
+  isServer?: boolean;
+  schema?: never;
+  validator?: never;
+};
+
+/**
+ * Return type of `createEnv`: `TResult` for `schema`/`validator` options, or the server and
+ * client variables combined for `server`/`client` options.
+ */
+export type CreateEnvResult<
+  TResult,
+  TServer extends z.AnyZodObject,
+  TClient extends z.AnyZodObject,
+> = [TServer] extends [never] ? TResult : z.infer<TServer> & z.infer<TClient>;
+
 /**
  * Options for the asynchronous `createEnvAsync` function.
  * Requires either `schema` (a Zod object schema) OR `validator`.
@@ -140,12 +482,21 @@ export type CreateEnvOptions<
 export interface CreateEnvAsyncOptions<
   TSchema extends z.AnyZodObject | undefined,
   TResult = TSchema extends z.AnyZodObject ? z.infer<TSchema> : unknown,
-> extends CreateEnvBaseOptions<TSchema, TResult> {
+> extends Omit<CreateEnvBaseOptions<TSchema, TResult>, "fileSystem"> {
+  /**
+   * Optional: File access used to load the `.env` files, like the `fileSystem` option of
+   * `createEnv`; `readFile` and `exists` may also return Promises (e.g. `fs/promises`, or
+   * a remote store). Defaults to `node:fs`.
+   */
+  fileSystem?: AsyncEnvFileSystem;
+
   /**
    * Optional: An array of functions that fetch secrets asynchronously.
    * Each function should return a Promise resolving to a `Record<string, string | undefined>`.
    * Secrets fetched here will override variables from `.env` files but be overridden by `process.env`.
-   * Fetching errors are logged as warnings, but do not halt execution unless all sources fail.
+   * By default, fetching errors are logged as warnings and do not halt execution (see `secretsFailurePolicy`).
+   * Each entry may also be an object (`{ name, fetch, priority, keys, required, timeoutMs, retry }`)
+   * to configure that source; its `priority` decides which source wins when several supply a key.
    *
    * @example
    * ```js
@@ -164,7 +515,238 @@ export interface CreateEnvAsyncOptions<
    * })
    * ```
    */
-  secretsSources?: SecretSourceFunction[];
+  secretsSources?: SecretSource[];
+
+  /**
+   * Optional: Timeout for each attempt of each secrets source, in milliseconds.
+   * A source that does not settle in time fails with a `SecretSourceTimeoutError`.
+   * Defaults to no timeout. Can be overridden per source with `timeoutMs`.
+   */
+  secretsTimeoutMs?: number;
+
+  /**
+   * Optional: Retry failed (or timed out) secrets sources with exponential backoff and jitter.
+   * Defaults to no retries. Can be overridden per source with `retry`.
+   *
+   * @example
+   * ```js
+   * createEnvAsync({
+   *   schema,
+   *   secretsSources: [getSecretsFromVault],
+   *   secretsTimeoutMs: 2000,
+   *   secretsRetry: { retries: 3, minDelayMs: 200 },
+   * })
+   * ```
+   */
+  secretsRetry?: SecretsRetryOptions;
+
+  /**
+   * Optional: How to handle secrets sources that fail. Defaults to `"warn"`.
+   * With `"fail"` (or `"fail-if-all"` when every source fails), `createEnvAsync` rejects with an
+   * `EnvValidationError` (`phase: "secrets"`) listing each failed source, instead of continuing
+   * with `.env` and `process.env` values only. Sources marked `required: true` always cause a rejection.
+   */
+  secretsFailurePolicy?: SecretsFailurePolicy;
+
+  /**
+   * Optional: Cancels loading. Aborting it aborts the `signal` of every in-flight secrets source,
+   * stops pending retries, and rejects with an `EnvAbortError` (whose `cause` is the abort reason).
+   *
+   * @example
+   * ```js
+   * const controller = new AbortController();
+   * process.once("SIGTERM", () => controller.abort());
+   * const env = await createEnvAsync({ schema, secretsSources, signal: controller.signal });
+   * ```
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Optional: Resolvers for secret reference URIs, keyed by URI scheme (without `:`).
+   * Every value of a schema key (from `.env` files, secrets sources or `process.env`) of the form
+   * `<scheme>://...` with a registered scheme is replaced by what its resolver returns,
+   * before validation. This lets `.env` files committed to the repository hold references
+   * instead of secrets. `secretsTimeoutMs`, `secretsRetry` and `signal` apply to each resolution.
+   * With a custom `validator`, the keys set by `.env` files or secrets sources are considered instead.
+   * A reference that cannot be resolved rejects with an `EnvValidationError` (`phase: "secrets"`).
+   * Keys whose values were resolved are treated as sensitive.
+   *
+   * @example
+   * ```js
+   * // .env: DB_PASSWORD=secret://vault/kv/app#password
+   * //       TLS_KEY=file:///run/secrets/tls_key
+   * createEnvAsync({
+   *   schema,
+   *   secretResolvers: {
+   *     secret: async (reference, { signal }) => readFromVault(reference, signal),
+   *     file: fileSecretResolver,
+   *   },
+   * })
+   * ```
+   */
+  secretResolvers?: Record<string, SecretResolver>;
+
+  /**
+   * Optional: Cache the values of secrets sources in an encrypted file, so that restarts within
+   * `ttlMs` skip the sources entirely, and (with `staleIfError`, on by default) a failing source
+   * falls back to its last cached values. The encryption key is read from the variable named by
+   * `keyEnvVar` (default `SCHEMA_ENV_CACHE_KEY`) in the runtime environment or the `.env` files.
+   * Cache problems (no key, unreadable file) are logged as warnings and never fail loading.
+   *
+   * @example
+   * ```js
+   * createEnvAsync({
+   *   schema,
+   *   secretsSources: [getSecretsFromVault],
+   *   secretsCache: { path: ".cache/schema-env-secrets", ttlMs: 15 * 60_000 },
+   * })
+   * ```
+   */
+  secretsCache?: SecretsCacheOptions;
+}
+
+/** Options for `createFileSecretsSource`. */
+export interface FileSecretsSourceOptions {
+  /**
+   * Optional: Directory holding one file per variable, named after the variable
+   * (Docker secrets, Kubernetes secret volumes). Defaults to `/run/secrets`.
+   * A missing directory is ignored. Set to `false` to disable.
+   */
+  directory?: string | false;
+  /**
+   * Optional: Suffix of variables that point to a file holding the value of another variable,
+   * e.g. `DB_PASSWORD_FILE=/run/secrets/db` supplies `DB_PASSWORD`. Looked up in the `.env`
+   * files and the runtime environment. Defaults to `"_FILE"`. Set to `false` to disable.
+   */
+  fileSuffix?: string | false;
+  /**
+   * Optional: The variables to look up. Defaults to the keys of the Zod `schema`, or to every
+   * file and `_FILE` reference when a custom `validator` is used. Limiting the keys avoids
+   * reading unrelated files such as the one in `SSL_CERT_FILE`.
+   */
+  keys?: string[];
+  /** Optional: Source name used in warnings, errors and provenance. Defaults to `"files"`. */
+  name?: string;
+  /** Optional: Merge priority (see `SecretSourceConfig.priority`). */
+  priority?: number;
+  /** Optional: Reject if the files cannot be read (see `SecretSourceConfig.required`). */
+  required?: boolean;
+}
+
+// --- Explanation Types ---
+
+/** A value seen for a variable in one source. */
+export interface EnvValueCandidate {
+  /** The source that supplied the value. */
+  source: EnvValueSource;
+  /** The raw value as supplied by the source (before any expansion). `"[REDACTED]"` for sensitive keys. */
+  value: string;
+}
+
+/** How a single variable was resolved. */
+export interface EnvVariableExplanation {
+  /**
+   * Every value seen for the variable, in precedence order
+   * (the first candidate is the winner, the last has the lowest priority).
+   */
+  candidates: EnvValueCandidate[];
+  /** The source of the winning value, or `undefined` if no source supplied one. */
+  source?: EnvValueSource;
+  /**
+   * The value passed to validation (after expansion), or `undefined` if no source supplied one.
+   * `"[REDACTED]"` for sensitive keys.
+   */
+  value?: string;
+  /** `true` if variable expansion changed the value loaded from the `.env` files. */
+  expanded: boolean;
+}
+
+/** The result of `explainEnv`. */
+export interface EnvExplanation {
+  /** Resolution trace per variable. */
+  variables: Record<string, EnvVariableExplanation>;
+  /** `true` if the resolved values pass validation. */
+  success: boolean;
+  /** Validation issues (empty when `success` is `true`). */
+  issues: StandardizedValidationError[];
+}
+
+// --- Watch Mode Types ---
+
+/** A variable whose validated value changed between two loads. */
+export interface EnvChange {
+  /** The variable name. */
+  key: string;
+  /** The previous validated value (`undefined` if the variable was absent). */
+  previous: unknown;
+  /** The new validated value (`undefined` if the variable was removed). */
+  current: unknown;
+}
+
+/** Called with the new environment object and the variables that changed. */
+export type EnvChangeListener<TResult> = (
+  env: TResult,
+  changes: EnvChange[]
+) => void;
+
+/**
+ * Options for `watchEnv`.
+ * Accepts the same options as `createEnv`.
+ */
+export type WatchEnvOptions<
+  TSchema extends z.AnyZodObject | undefined,
+  TResult = TSchema extends z.AnyZodObject ? z.infer<TSchema> : unknown,
+> = CreateEnvOptions<TSchema, TResult> & {
+  /**
+   * Optional: Milliseconds to wait after the last file change before reloading. Defaults to `100`.
+   * Editors often write a file in several steps; this avoids validating half-written files.
+   */
+  debounceMs?: number;
+  /** Not supported: `watchEnv` watches and reloads the `.env` files on disk. */
+  fileSystem?: never;
+};
+
+/**
+ * Handle returned by `watchEnv`.
+ * Emits `"change"` with the new environment and its diff after every successful reload,
+ * and `"error"` when a reload fails (the last valid environment is kept).
+ */
+export interface EnvWatcher<TResult> {
+  /** The last successfully validated environment object. */
+  readonly env: TResult;
+  on(event: "change", listener: EnvChangeListener<TResult>): this;
+  on(event: "error", listener: (error: Error) => void): this;
+  off(event: "change", listener: EnvChangeListener<TResult>): this;
+  off(event: "error", listener: (error: Error) => void): this;
+  /** Stops watching. No further events are emitted. */
+  close(): void;
+}
+
+/**
+ * Options for `createEnvAsyncLive`.
+ * Accepts the same options as `createEnvAsync`.
+ */
+export type LiveEnvOptions<
+  TSchema extends z.AnyZodObject | undefined,
+  TResult = TSchema extends z.AnyZodObject ? z.infer<TSchema> : unknown,
+> = CreateEnvAsyncOptions<TSchema, TResult> & {
+  /**
+   * Milliseconds between refreshes. Each refresh starts this long after the previous one
+   * finished, so slow secrets sources never overlap.
+   */
+  refreshIntervalMs: number;
+};
+
+/**
+ * Handle returned by `createEnvAsyncLive`.
+ * Emits `"change"` and `"error"` like `EnvWatcher`, after every refresh.
+ */
+export interface LiveEnv<TResult> extends EnvWatcher<TResult> {
+  /**
+   * Refreshes now instead of waiting for the next interval, which then restarts.
+   * Resolves when the refresh is done; failures are emitted as `"error"`, never rejected.
+   */
+  refresh(): Promise<void>;
 }
 
 // --- Default Zod Adapter Implementation (Corrected ZodObject constraint) ---
@@ -201,44 +783,18 @@ class ZodValidatorAdapter<T extends z.AnyZodObject>
 // --- Internal Helper Functions (Updated) ---
 
 /**
- * Loads and merges environment variables from specified `.env` file paths using fs.
- * Handles default path, single path, array paths, and environment-specific files.
- * Gracefully ignores ENOENT errors but throws on other file access errors.
- * PREVENTS mutation of process.env during loading.
+ * Resolves the list of `.env` file paths to load, in load order.
+ * Handles default path, single path, array paths, and the environment-specific file.
  * @internal
  */
-function _loadDotEnvFiles(
+function _resolveDotEnvPaths(
   dotEnvPath: string | false | string[] | undefined,
   nodeEnv: string | undefined
-): dotenv.DotenvParseOutput {
+): string[] {
   if (dotEnvPath === false) {
-    return {}; // Loading disabled
+    return []; // Loading disabled
   }
 
-  let mergedDotEnvParsed: dotenv.DotenvParseOutput = {};
-
-  // Use Node.js 'fs' module to read files directly
-  const loadEnvFile = (filePath: string): dotenv.DotenvParseOutput => {
-    try {
-      // Read the file content
-      const fileContent = fs.readFileSync(filePath, { encoding: "utf8" });
-      // Parse the content using dotenv's parser
-      const parsed = dotenv.parse(fileContent);
-      // console.log(`[schema-env] Successfully parsed env file: ${filePath}`);
-      return parsed;
-    } catch (e) {
-      const err = e as NodeJS.ErrnoException;
-      if (err.code !== "ENOENT") {
-        // Throw actual file reading errors (permissions, etc.)
-        throw new Error(
-          `❌ Failed to load environment file from ${filePath}: ${err.message}`
-        );
-      }
-      // console.warn(`[schema-env] Optional env file not found, ignoring: ${filePath}`);
-      return {}; // File not found (ENOENT) is ignored
-    }
-  };
-
   let pathsToLoad: string[] = [];
 
   if (dotEnvPath === undefined) {
@@ -260,99 +816,308 @@ function _loadDotEnvFiles(
     });
   }
 
-  // Load base files sequentially. Errors (non-ENOENT) will throw and halt here.
-  for (const path of pathsToLoad) {
-    const parsed = loadEnvFile(path);
-    mergedDotEnvParsed = { ...mergedDotEnvParsed, ...parsed }; // Ensure later files override
-  }
-
-  // Load environment-specific file *after* base files. Errors will throw and halt here.
+  // Environment-specific file is loaded *after* base files so it overrides them.
   // Use the NODE_ENV value passed in (which should reflect process.env)
   if (nodeEnv) {
-    const envSpecificPath = `./.env.${nodeEnv}`;
-    const envSpecificParsed = loadEnvFile(envSpecificPath);
-    mergedDotEnvParsed = { ...mergedDotEnvParsed, ...envSpecificParsed }; // Env-specific overrides base
+    pathsToLoad.push(`./.env.${nodeEnv}`);
   }
 
-  return mergedDotEnvParsed;
+  return pathsToLoad;
 }
 
 /**
- * Performs variable expansion on the provided dotenv parsed values if enabled.
+ * Handles an error reading a `.env` file: a missing file (ENOENT) is ignored (`null`),
+ * other errors (permissions, etc.) are thrown as a `file-load` error.
  * @internal
  */
-function _expandDotEnvValues(
-  mergedDotEnvParsed: dotenv.DotenvParseOutput,
-  expandVariables: boolean | undefined,
-  expandDotenv: DotenvExpandFunction
-): dotenv.DotenvParseOutput {
-  if (
-    !expandVariables ||
-    !mergedDotEnvParsed ||
-    Object.keys(mergedDotEnvParsed).length === 0
-  ) {
-    return mergedDotEnvParsed || {};
+function _handleDotEnvFileError(filePath: string, e: unknown): null {
+  const err = e as NodeJS.ErrnoException;
+  if (err.code === "ENOENT") {
+    return null; // File not found (ENOENT) is ignored
   }
+  const message = `Failed to load environment file from ${filePath}: ${err.message}`;
+  throw new EnvValidationError(
+    "file-load",
+    [{ path: [], message }],
+    `❌ ${message}`,
+    { cause: err }
+  );
+}
 
-  // dotenv-expand expects a specific input structure and mutates it
-  const configToExpand: dotenv.DotenvConfigOutput = {
-    parsed: { ...mergedDotEnvParsed },
-  };
-
+/**
+ * Reads and parses one `.env` file through `fileSystem`, or Node's `fs` by default.
+ * Returns `null` if the file does not exist.
+ * PREVENTS mutation of process.env during loading.
+ * @internal
+ */
+function _readDotEnvFile(
+  filePath: string,
+  fileSystem: EnvFileSystem | undefined
+): dotenv.DotenvParseOutput | null {
   try {
-    const expansionResult = expandDotenv(configToExpand);
-    // Use the expanded results if available, fallback to original if expansion failed somehow
-    return expansionResult?.parsed || mergedDotEnvParsed || {};
+    if (fileSystem) {
+      return fileSystem.exists(filePath)
+        ? dotenv.parse(fileSystem.readFile(filePath))
+        : null;
+    }
+    // Read the file content
+    const fileContent = fs.readFileSync(filePath, { encoding: "utf8" });
+    // Parse the content using dotenv's parser
+    return dotenv.parse(fileContent);
   } catch (e) {
-    // Catch potential errors during expansion itself
-    console.error(
-      `❌ Error during variable expansion: ${
-        e instanceof Error ? e.message : String(e)
-      }`
-    );
-    // Return the unexpanded values as a fallback
-    return mergedDotEnvParsed || {};
+    return _handleDotEnvFileError(filePath, e);
   }
 }
 
 /**
- * Merges values from process.env into a source object.
- * process.env values take precedence over existing values in the source object.
- * @param sourceInput - The object containing values from previous steps (e.g., .env, secrets).
+ * Like `_readDotEnvFile`, awaiting a file system that may be asynchronous.
  * @internal
  */
-function _mergeProcessEnv(sourceInput: EnvironmentInput): EnvironmentInput {
-  // --- Add Debug Log ---
-  // console.log("DEBUG: [_mergeProcessEnv] sourceInput:", sourceInput);
-  // console.log("DEBUG: [_mergeProcessEnv] process.env.TARGET:", process.env.TARGET);
-  // --- End Debug Log ---
-
-  // Create a copy to avoid mutating the input object directly
-  const sourceWithProcessEnv: EnvironmentInput = { ...sourceInput };
-
-  // process.env overrides existing values
-  for (const key in process.env) {
-    if (Object.prototype.hasOwnProperty.call(process.env, key)) {
-      // Ensure value is not undefined before assigning
-      const value = process.env[key];
-      if (value !== undefined) {
-        sourceWithProcessEnv[key] = value;
-      }
-    }
+async function _readDotEnvFileAsync(
+  filePath: string,
+  fileSystem: AsyncEnvFileSystem | undefined
+): Promise<dotenv.DotenvParseOutput | null> {
+  if (!fileSystem) {
+    return _readDotEnvFile(filePath, undefined);
+  }
+  try {
+    return (await fileSystem.exists(filePath))
+      ? dotenv.parse(await fileSystem.readFile(filePath))
+      : null;
+  } catch (e) {
+    return _handleDotEnvFileError(filePath, e);
   }
-  // --- Add Debug Log ---
-  // console.log("DEBUG: [_mergeProcessEnv] result:", sourceWithProcessEnv);
-  // --- End Debug Log ---
-  return sourceWithProcessEnv;
 }
 
 /**
- * Formats validation errors from the standardized result into a user-friendly string.
+ * Loads environment variables from the resolved `.env` file paths.
+ * Returns one layer per file that was found, in load order (later layers override earlier ones).
+ * Gracefully ignores missing files but throws on other file access errors.
+ * @internal
+ */
+function _loadDotEnvFiles(
+  dotEnvPath: string | false | string[] | undefined,
+  nodeEnv: string | undefined,
+  fileSystem: EnvFileSystem | undefined
+): EnvSourceLayer[] {
+  const layers: EnvSourceLayer[] = [];
+
+  // Load files sequentially. Errors (non-ENOENT) will throw and halt here.
+  for (const path of _resolveDotEnvPaths(dotEnvPath, nodeEnv)) {
+    const parsed = _readDotEnvFile(path, fileSystem);
+    if (parsed) {
+      layers.push({ source: { type: "dotenv", path }, values: parsed });
+    }
+  }
+
+  return layers;
+}
+
+/**
+ * Like `_loadDotEnvFiles`, awaiting a file system that may be asynchronous.
+ * @internal
+ */
+async function _loadDotEnvFilesAsync(
+  dotEnvPath: string | false | string[] | undefined,
+  nodeEnv: string | undefined,
+  fileSystem: AsyncEnvFileSystem | undefined
+): Promise<EnvSourceLayer[]> {
+  const layers: EnvSourceLayer[] = [];
+
+  for (const path of _resolveDotEnvPaths(dotEnvPath, nodeEnv)) {
+    const parsed = await _readDotEnvFileAsync(path, fileSystem);
+    if (parsed) {
+      layers.push({ source: { type: "dotenv", path }, values: parsed });
+    }
+  }
+
+  return layers;
+}
+
+/**
+ * Reads a secret file, removing one trailing newline, as editors and `echo` add it.
+ * @internal
+ */
+function _readSecretFile(filePath: string): string {
+  return fs.readFileSync(filePath, { encoding: "utf8" }).replace(/\r?\n$/, "");
+}
+
+/**
+ * Reads secret values from files: one file per variable in `directory`, plus every
+ * `<KEY><fileSuffix>` variable pointing at a file holding the value of `<KEY>`.
+ * `<fileSuffix>` references override files from the directory.
+ * When `keys` is given, other variables are skipped.
+ * A missing directory is ignored; a missing referenced file throws.
+ * @internal
+ */
+function _loadSecretFiles(
+  directory: string | false,
+  fileSuffix: string | false,
+  references: Record<string, string | undefined>,
+  keys: ReadonlySet<string> | undefined
+): Record<string, string> {
+  const isWanted = (key: string) => !keys || keys.has(key);
+  const values: Record<string, string> = {};
+
+  if (directory !== false) {
+    let names: string[] = [];
+    try {
+      names = fs.readdirSync(directory);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw e;
+      }
+    }
+    // Skip hidden entries, e.g. Kubernetes' "..data" directories
+    for (const name of names.filter(
+      (name) => !name.startsWith(".") && isWanted(name)
+    )) {
+      try {
+        values[name] = _readSecretFile(nodePath.join(directory, name));
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "EISDIR") {
+          throw e;
+        }
+      }
+    }
+  }
+
+  if (fileSuffix !== false) {
+    for (const [reference, filePath] of Object.entries(references)) {
+      const key = reference.slice(0, -fileSuffix.length);
+      if (reference.endsWith(fileSuffix) && key && filePath && isWanted(key)) {
+        values[key] = _readSecretFile(filePath);
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Merges source layers in order, later layers overriding earlier ones.
+ * Records which source supplied the winning value of each key.
+ * `undefined` values never override an existing value.
+ * @internal
+ */
+function _mergeLayers(
+  layers: EnvSourceLayer[],
+  base: MergedEnvironment = { values: {}, provenance: {} }
+): MergedEnvironment {
+  const values: EnvironmentInput = { ...base.values };
+  const provenance: EnvProvenance = { ...base.provenance };
+
+  for (const layer of layers) {
+    for (const key of Object.keys(layer.values)) {
+      const value = layer.values[key];
+      if (value !== undefined) {
+        values[key] = value;
+        provenance[key] = layer.source;
+      }
+    }
+  }
+
+  return { values, provenance };
+}
+
+/**
+ * Performs variable expansion on the provided dotenv parsed values if enabled.
+ * @internal
+ */
+function _expandDotEnvValues(
+  mergedDotEnvParsed: dotenv.DotenvParseOutput,
+  expandVariables: boolean | undefined,
+  expandDotenv: DotenvExpandFunction
+): dotenv.DotenvParseOutput {
+  if (
+    !expandVariables ||
+    !mergedDotEnvParsed ||
+    Object.keys(mergedDotEnvParsed).length === 0
+  ) {
+    return mergedDotEnvParsed || {};
+  }
+
+  // dotenv-expand expects a specific input structure and mutates it
+  const configToExpand: dotenv.DotenvConfigOutput = {
+    parsed: { ...mergedDotEnvParsed },
+  };
+
+  try {
+    const expansionResult = expandDotenv(configToExpand);
+    // Use the expanded results if available, fallback to original if expansion failed somehow
+    return expansionResult?.parsed || mergedDotEnvParsed || {};
+  } catch (e) {
+    // Catch potential errors during expansion itself
+    console.error(
+      `❌ Error during variable expansion: ${
+        e instanceof Error ? e.message : String(e)
+      }`
+    );
+    // Return the unexpanded values as a fallback
+    return mergedDotEnvParsed || {};
+  }
+}
+
+/**
+ * Returns the runtime environment: the `runtimeEnv` option, or `process.env`.
+ * @internal
+ */
+function _runtimeEnv(options: {
+  runtimeEnv?: Record<string, string | undefined>;
+}): Record<string, string | undefined> {
+  return options.runtimeEnv ?? process.env;
+}
+
+/**
+ * Merges values from the runtime environment into the values collected so far.
+ * Runtime environment values take precedence over existing values.
+ * @param sourceInput - The values and provenance from previous steps (e.g., .env, secrets).
+ * @param runtimeEnv - The runtime environment (`process.env` by default).
+ * @internal
+ */
+function _mergeProcessEnv(
+  sourceInput: MergedEnvironment,
+  runtimeEnv: Record<string, string | undefined>
+): MergedEnvironment {
+  return _mergeLayers([_processEnvLayer(runtimeEnv)], sourceInput);
+}
+
+/**
+ * Snapshots the runtime environment as a source layer.
+ * Copies to avoid mutating (or holding a live reference to) process.env.
+ * @internal
+ */
+function _processEnvLayer(
+  runtimeEnv: Record<string, string | undefined>
+): EnvSourceLayer {
+  return { source: { type: "process.env" }, values: { ...runtimeEnv } };
+}
+
+/**
+ * Describes a value source for use in messages.
+ * @internal
+ */
+function _describeSource(source: EnvValueSource): string {
+  switch (source.type) {
+    case "dotenv":
+      return source.path;
+    case "secrets":
+      return source.name
+        ? `secrets source "${source.name}"`
+        : `secrets source at index ${source.index}`;
+    case "process.env":
+      return "process.env";
+  }
+}
+
+/**
+ * Formats validation errors from the standardized result into a user-friendly string.
  * Renamed from _formatZodError.
  * @internal
  */
 function _formatValidationError(
-  error: { issues: StandardizedValidationError[] } | ZodError
+  error: { issues: StandardizedValidationError[] } | ZodError,
+  provenance?: EnvProvenance
 ): string {
   let issues: StandardizedValidationError[];
 
@@ -370,12 +1135,76 @@ function _formatValidationError(
     return "❌ Unknown validation error occurred.";
   }
 
-  const formattedErrors = issues.map(
-    (err) => `  - ${err.path.join(".") || "UNKNOWN_PATH"}: ${err.message}`
-  );
+  const formattedErrors = issues.map((err) => {
+    const line = `  - ${err.path.join(".") || "UNKNOWN_PATH"}: ${err.message}`;
+    // Point at the source that supplied the offending value, if known
+    const source =
+      provenance && err.path.length > 0
+        ? provenance[String(err.path[0])]
+        : undefined;
+    return source ? `${line} (from ${_describeSource(source)})` : line;
+  });
   return `❌ Invalid environment variables:\n${formattedErrors.join("\n")}`;
 }
 
+/**
+ * Collects the sensitive keys from the `sensitive` option and the `sensitive()` marks in the schema.
+ * @internal
+ */
+function _resolveSensitiveKeys(
+  options: Omit<
+    CreateEnvBaseOptions<z.AnyZodObject | undefined, unknown>,
+    "fileSystem"
+  >
+): Set<string> {
+  const { nestingDelimiter } = options;
+  const keys = new Set(options.sensitive ?? []);
+  // With nesting, marks inside nested objects name their delimited variable (`DB__PASS`)
+  const addMarked = (schema: z.AnyZodObject, path: string) => {
+    for (const info of _describeEnvSchema(schema)) {
+      const name = `${path}${info.name}`;
+      if (info.sensitive) {
+        keys.add(name);
+      }
+      const inner = _unwrapZodType(schema.shape[info.name] as z.ZodTypeAny);
+      if (nestingDelimiter && inner instanceof ZodObject) {
+        addMarked(inner, `${name}${nestingDelimiter}`);
+      }
+    }
+  };
+  if (options.schema instanceof ZodObject) {
+    addMarked(options.schema, "");
+  }
+  return keys;
+}
+
+/**
+ * Removes the values of sensitive keys from issue messages.
+ * Every sensitive value is redacted from every message, since validators
+ * (e.g. object-level refinements) may mention other keys' values.
+ * @internal
+ */
+function _redactIssues(
+  issues: StandardizedValidationError[],
+  sensitiveKeys: ReadonlySet<string>,
+  values: EnvironmentInput,
+  nestingDelimiter: string | undefined
+): StandardizedValidationError[] {
+  if (sensitiveKeys.size === 0) {
+    return issues;
+  }
+  const sensitiveValues = Object.keys(values)
+    .filter((key) => _isSensitiveName(key, sensitiveKeys, nestingDelimiter))
+    .map((key) => values[key]);
+  return issues.map((issue) => {
+    let message = issue.message;
+    for (const value of sensitiveValues) {
+      message = _redactMessage(message, value);
+    }
+    return message === issue.message ? issue : { ...issue, message };
+  });
+}
+
 /**
  * Validates the prepared environment input using the chosen validation adapter.
  * Replaces the old _validateSchema.
@@ -389,81 +1218,637 @@ function _validateEnvironment<TResult>(
   return adapter.validate(sourceForValidation);
 }
 
+/**
+ * The loaded `.env` files, shared by `createEnv`, `createEnvAsync` and `explainEnv`.
+ * @internal
+ */
+interface DotEnvStage {
+  /** One layer per loaded file, in load order. */
+  layers: EnvSourceLayer[];
+  /** Merged values before expansion. */
+  raw: EnvironmentInput;
+  /** Merged values after expansion, with provenance. */
+  expanded: MergedEnvironment;
+}
+
+/**
+ * Loads, merges and (optionally) expands the `.env` files for the given options.
+ * @internal
+ */
+function _loadDotEnvStage(
+  options: CreateEnvBaseOptions<z.AnyZodObject | undefined, unknown>
+): DotEnvStage {
+  // Load .env files (respecting NODE_ENV) - Can throw sync
+  const layers = _loadDotEnvFiles(
+    options.dotEnvPath,
+    _runtimeEnv(options).NODE_ENV, // Use the runtime value here for deciding which env-specific file to load
+    options.fileSystem
+  );
+  return _expandDotEnvStage(layers, options);
+}
+
+/**
+ * Like `_loadDotEnvStage`, with a file system that may be asynchronous.
+ * @internal
+ */
+async function _loadDotEnvStageAsync(
+  options: CreateEnvAsyncOptions<z.AnyZodObject | undefined, unknown>
+): Promise<DotEnvStage> {
+  const layers = await _loadDotEnvFilesAsync(
+    options.dotEnvPath,
+    _runtimeEnv(options).NODE_ENV,
+    options.fileSystem
+  );
+  return _expandDotEnvStage(layers, options);
+}
+
+/**
+ * Merges the loaded `.env` layers and expands them if enabled.
+ * @internal
+ */
+function _expandDotEnvStage(
+  layers: EnvSourceLayer[],
+  options: Pick<
+    CreateEnvBaseOptions<z.AnyZodObject | undefined, unknown>,
+    "expandVariables" | "_internalDotenvExpand"
+  >
+): DotEnvStage {
+  const { expandVariables = false, _internalDotenvExpand = expand } = options;
+  const dotEnv = _mergeLayers(layers);
+
+  // Expand .env values if enabled - Should not throw
+  const expandedValues = _expandDotEnvValues(
+    dotEnv.values as dotenv.DotenvParseOutput,
+    expandVariables,
+    _internalDotenvExpand
+  );
+
+  return {
+    layers,
+    raw: dotEnv.values,
+    expanded: { values: expandedValues, provenance: dotEnv.provenance },
+  };
+}
+
+/**
+ * Keeps only the variables starting with the prefix, with the prefix removed
+ * from their names (in both values and provenance).
+ * @internal
+ */
+function _stripPrefix(
+  merged: MergedEnvironment,
+  prefix: string | undefined
+): MergedEnvironment {
+  if (!prefix) {
+    return merged;
+  }
+  const strip = <T>(record: Record<string, T>) =>
+    Object.fromEntries(
+      Object.entries(record)
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, value]) => [key.slice(prefix.length), value])
+    );
+  return {
+    values: strip(merged.values),
+    provenance: strip(merged.provenance),
+  };
+}
+
+/**
+ * Restores the prefix on the variable name starting each issue path.
+ * @internal
+ */
+function _prefixIssues(
+  issues: StandardizedValidationError[],
+  prefix: string | undefined
+): StandardizedValidationError[] {
+  if (!prefix) {
+    return issues;
+  }
+  return issues.map((issue) =>
+    issue.path.length > 0
+      ? {
+          ...issue,
+          path: [`${prefix}${issue.path[0]}`, ...issue.path.slice(1)],
+        }
+      : issue
+  );
+}
+
+/**
+ * Nests variables on the delimiter: `DB__HOST` becomes `{ DB: { HOST } }`.
+ * Names with empty segments are kept as they are. A value that clashes with a group
+ * (`DB` alongside `DB__HOST`) is dropped with a warning. Groups have no prototype, so
+ * a segment like `__proto__` is stored as a plain key instead of reaching `Object.prototype`.
+ * @internal
+ */
+function _nestValues(
+  values: EnvironmentInput,
+  delimiter: string | undefined
+): EnvironmentInput {
+  if (!delimiter) {
+    return values;
+  }
+  const nested: EnvironmentInput = Object.create(null);
+  const isGroup = (value: unknown): value is EnvironmentInput =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  const warnClash = (name: string) =>
+    console.warn(
+      `⚠️ [schema-env] Warning: Ignoring ${name}: it clashes with variables nested under it.`
+    );
+
+  // Set plain values before groups, so groups consistently win clashes
+  const entries = Object.entries(values).sort(
+    ([a], [b]) => a.split(delimiter).length - b.split(delimiter).length
+  );
+  for (const [name, value] of entries) {
+    const segments = name.split(delimiter);
+    if (segments.some((segment) => segment === "")) {
+      nested[name] = value;
+      continue;
+    }
+    let target = nested;
+    for (const [index, segment] of segments.slice(0, -1).entries()) {
+      if (!isGroup(target[segment])) {
+        if (target[segment] !== undefined) {
+          warnClash(segments.slice(0, index + 1).join(delimiter));
+        }
+        target[segment] = Object.create(null);
+      }
+      target = target[segment] as EnvironmentInput;
+    }
+    target[segments[segments.length - 1]] = value;
+  }
+  return nested;
+}
+
+/**
+ * Maps issue paths of nested input back to the delimited variable names:
+ * `["DB", "PORT"]` becomes `["DB__PORT"]`. Path segments beyond a known variable
+ * (e.g. inside a JSON value) are kept.
+ * @internal
+ */
+function _flattenIssues(
+  issues: StandardizedValidationError[],
+  delimiter: string | undefined,
+  names: ReadonlySet<string>
+): StandardizedValidationError[] {
+  if (!delimiter) {
+    return issues;
+  }
+  return issues.map((issue) => {
+    const leading = issue.path.findIndex(
+      (segment) => typeof segment !== "string"
+    );
+    const segments = issue.path.slice(
+      0,
+      leading === -1 ? issue.path.length : leading
+    ) as string[];
+    // The longest run of segments naming a supplied variable, else every name segment
+    let length = segments.length;
+    for (let end = segments.length; end > 0; end--) {
+      if (names.has(segments.slice(0, end).join(delimiter))) {
+        length = end;
+        break;
+      }
+    }
+    if (length <= 1) {
+      return issue;
+    }
+    return {
+      ...issue,
+      path: [
+        segments.slice(0, length).join(delimiter),
+        ...issue.path.slice(length),
+      ],
+    };
+  });
+}
+
+/**
+ * Validates the merged environment, throwing an `EnvValidationError` on failure.
+ * With a `prefix`, only the prefixed variables are validated, without the prefix;
+ * with a `nestingDelimiter`, they are nested first. The error names the full variables.
+ * Sensitive values are redacted from the error, and from the result's logged/serialized forms.
+ * On success, records the provenance of the result for `getEnvProvenance`.
+ * @internal
+ */
+function _validateMergedEnvironment<TResult>(
+  adapter: ValidatorAdapter<TResult>,
+  merged: MergedEnvironment,
+  sensitiveKeys: ReadonlySet<string>,
+  naming: { prefix?: string; nestingDelimiter?: string }
+): TResult {
+  const { prefix, nestingDelimiter } = naming;
+  const input = _stripPrefix(merged, prefix);
+  const validationResult = _validateEnvironment(
+    adapter,
+    _nestValues(input.values, nestingDelimiter)
+  );
+
+  if (!validationResult.success) {
+    const issues = _prefixIssues(
+      _flattenIssues(
+        _redactIssues(
+          validationResult.error.issues,
+          sensitiveKeys,
+          input.values,
+          nestingDelimiter
+        ),
+        nestingDelimiter,
+        new Set(Object.keys(input.values))
+      ),
+      prefix
+    );
+    throw new EnvValidationError(
+      "validation",
+      issues,
+      _formatValidationError({ issues }, merged.provenance),
+      { provenance: merged.provenance }
+    );
+  }
+
+  const data = _redactEnv(
+    validationResult.data,
+    sensitiveKeys,
+    nestingDelimiter
+  );
+  if (typeof data === "object" && data !== null) {
+    envProvenanceRegistry.set(data, input.provenance);
+  }
+  return data;
+}
+
+/**
+ * Names a secrets source in messages, e.g. `secrets source "vault"`.
+ * Unnamed sources are identified by their index.
+ * @internal
+ */
+function _secretSourceLabel(index: number, name: string | undefined): string {
+  return name
+    ? `secrets source "${name}"`
+    : `secrets source function at index ${index}`;
+}
+
+/**
+ * Upper-cases the first character, for labels starting a sentence.
+ * @internal
+ */
+function _capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Creates the error used to reject when loading is aborted.
+ * @internal
+ */
+function _abortError(signal: AbortSignal): EnvAbortError {
+  const reason: unknown = signal.reason;
+  return new EnvAbortError(
+    `❌ Environment loading was aborted${
+      reason instanceof Error ? `: ${reason.message}` : ""
+    }`,
+    { cause: reason }
+  );
+}
+
+/**
+ * Waits for the given delay. Rejects with an `EnvAbortError` if the signal is aborted first.
+ * @internal
+ */
+function _sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(_abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(_abortError(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Calls a secrets source function (or secret resolver) once, turning sync throws and
+ * non-promise returns into rejections. `call` receives the attempt's own signal.
+ * Rejects with a `SecretSourceTimeoutError` if `timeoutMs` elapses first, or with an `EnvAbortError`
+ * if `signal` is aborted first; either way, the attempt's own signal is aborted.
+ * @internal
+ */
+function _callSecretSource<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  label: string,
+  timeoutMs: number | undefined,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(_abortError(signal));
+  }
+  const controller = new AbortController();
+  let attempt: Promise<T>;
+  try {
+    // Ensure the function returns a promise
+    const maybePromise = call(controller.signal);
+    if (
+      maybePromise &&
+      typeof (maybePromise as Promise<unknown>).then === "function"
+    ) {
+      attempt = maybePromise;
+    } else {
+      // If it's not a promise, reject explicitly
+      return Promise.reject(
+        new Error(
+          `Sync return value from ${label}. Function must return a Promise.`
+        )
+      );
+    }
+  } catch (syncError) {
+    // Catch synchronous errors in the source function itself
+    return Promise.reject(
+      new Error(
+        `Sync error in ${label}: ${
+          syncError instanceof Error ? syncError.message : String(syncError)
+        }`
+      )
+    );
+  }
+
+  const racers = [attempt];
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  if (timeoutMs !== undefined) {
+    racers.push(
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          const error = new SecretSourceTimeoutError(
+            `${_capitalize(label)} timed out after ${timeoutMs}ms`,
+            timeoutMs
+          );
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+      })
+    );
+  }
+
+  let onAbort: (() => void) | undefined;
+  if (signal) {
+    racers.push(
+      new Promise<never>((_resolve, reject) => {
+        onAbort = () => {
+          controller.abort(signal.reason);
+          reject(_abortError(signal));
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+      })
+    );
+  }
+
+  // Sources that ignore the signal are abandoned; clearing the timer lets the process exit.
+  return Promise.race(racers).finally(() => {
+    clearTimeout(timer);
+    if (onAbort) {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  });
+}
+
+/**
+ * Computes the delay before a retry (1-based) using exponential backoff and optional full jitter.
+ * @internal
+ */
+function _retryDelay(retry: SecretsRetryOptions, attempt: number): number {
+  const {
+    minDelayMs = 100,
+    maxDelayMs = 5000,
+    factor = 2,
+    jitter = true,
+  } = retry;
+  const delay = Math.min(maxDelayMs, minDelayMs * factor ** (attempt - 1));
+  return jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Fetches one secrets source (or resolves one secret reference), retrying failures
+ * (including timeouts) as configured.
+ * Rejects with the last failure, or with an `EnvAbortError` as soon as `signal` is aborted.
+ * @internal
+ */
+async function _fetchSecretSource<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  label: string,
+  timeoutMs: number | undefined,
+  retry: SecretsRetryOptions | undefined,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  const retries = Math.max(0, retry?.retries ?? 0);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await _callSecretSource(call, label, timeoutMs, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error instanceof EnvAbortError ? error : _abortError(signal);
+      }
+      if (!retry || attempt >= retries) {
+        throw error;
+      }
+      await _sleep(_retryDelay(retry, attempt + 1), signal);
+    }
+  }
+}
+
 /**
  * Fetches secrets from multiple sources concurrently.
- * Logs warnings for failures but doesn't halt unless all fail.
+ * Returns one layer per successful source, ordered by priority, then array order
+ * (later layers override earlier ones). Keys outside a source's `keys` are dropped.
+ * Failures are handled according to the failure policy: logged as warnings by default,
+ * or thrown together as an `EnvValidationError` (`phase: "secrets"`).
+ * Timeouts are reported distinctly from errors thrown by the source.
  * @internal
  */
 async function _fetchSecrets(
-  secretsSources: SecretSourceFunction[] | undefined
-): Promise<Record<string, string | undefined>> {
+  secretsSources: SecretSource[] | undefined,
+  context: Omit<SecretSourceContext, "signal">,
+  settings: {
+    timeoutMs?: number;
+    retry?: SecretsRetryOptions;
+    failurePolicy?: SecretsFailurePolicy;
+    signal?: AbortSignal;
+    cache?: SecretsCacheOptions;
+  } = {}
+): Promise<EnvSourceLayer[]> {
   if (!secretsSources || secretsSources.length === 0) {
-    return {};
+    return [];
   }
+  const { failurePolicy = "warn" } = settings;
+  const cache = settings.cache
+    ? await _openSecretsCache(settings.cache, context)
+    : undefined;
+
+  // Normalize plain functions and apply the global timeout/retry defaults
+  const sources = secretsSources.map((source, index) => {
+    const config: SecretSourceConfig =
+      typeof source === "function" ? { fetch: source } : source;
+    return {
+      fetch: config.fetch,
+      // Explicit names label messages; function names only appear in provenance
+      label: _secretSourceLabel(index, config.name),
+      name: config.name ?? config.fetch.name,
+      priority: config.priority ?? 0,
+      keys: config.keys ? new Set(config.keys) : undefined,
+      required: config.required ?? false,
+      timeoutMs: config.timeoutMs ?? settings.timeoutMs,
+      retry:
+        config.retry === false ? undefined : (config.retry ?? settings.retry),
+      // The index keeps sources sharing a name apart
+      cacheId:
+        config.cache === false
+          ? undefined
+          : `${index}:${config.name ?? config.fetch.name}`,
+    };
+  });
 
   // Use Promise.allSettled to run all sources even if some fail
   const results = await Promise.allSettled(
-    secretsSources.map((sourceFn, index) => {
+    sources.map(async (source) => {
+      const cached =
+        cache && source.cacheId !== undefined
+          ? cache.entries[source.cacheId]
+          : undefined;
+      const age = cached ? Date.now() - cached.fetchedAt : 0;
+      if (cached && age < cache!.options.ttlMs) {
+        return cached.values;
+      }
       try {
-        // Ensure the function returns a promise
-        const maybePromise = sourceFn();
+        const values = await _fetchSecretSource(
+          (signal) => source.fetch({ ...context, signal }),
+          source.label,
+          source.timeoutMs,
+          source.retry,
+          settings.signal
+        );
+        if (cache && source.cacheId !== undefined && values) {
+          cache.entries[source.cacheId] = { fetchedAt: Date.now(), values };
+          cache.changed = true;
+        }
+        return values;
+      } catch (error) {
+        const { staleIfError = true, maxStaleMs = Infinity } =
+          cache?.options ?? {};
         if (
-          maybePromise &&
-          typeof (maybePromise as Promise<unknown>).then === "function"
+          cached &&
+          staleIfError &&
+          age <= maxStaleMs &&
+          !(error instanceof EnvAbortError)
         ) {
-          return maybePromise;
-        } else {
-          // If it's not a promise, reject explicitly
-          return Promise.reject(
-            new Error(
-              `Sync return value from secrets source function at index ${index}. Function must return a Promise.`
-            )
+          console.warn(
+            `⚠️ [schema-env] Warning: ${_capitalize(source.label)} failed (${
+              error instanceof Error ? error.message : String(error)
+            }); using cached values fetched ${Math.round(age / 1000)}s ago.`
           );
+          return cached.values;
         }
-      } catch (syncError) {
-        // Catch synchronous errors in the source function itself
-        return Promise.reject(
-          new Error(
-            `Sync error in secrets source function at index ${index}: ${
-              syncError instanceof Error ? syncError.message : String(syncError)
-            }`
-          )
-        );
+        throw error;
       }
     })
   );
+  // Cancellation wins over individual failures
+  if (settings.signal?.aborted) {
+    throw _abortError(settings.signal);
+  }
+  if (cache?.changed) {
+    await _saveSecretsCache(cache);
+  }
+  // Failed sources have used up every attempt
+  const attemptsNote = (index: number) => {
+    const retries = Math.max(0, sources[index].retry?.retries ?? 0);
+    return retries > 0 ? ` (after ${retries + 1} attempts)` : "";
+  };
 
-  let mergedSecrets: Record<string, string | undefined> = {};
-  let successfulFetches = 0;
+  const layers: (EnvSourceLayer & { priority: number })[] = [];
+  const failures: { index: number; reason: unknown; message: string }[] = [];
 
   results.forEach((result, index) => {
     if (result.status === "fulfilled") {
-      successfulFetches++;
-      // Merge fulfilled results, later sources override earlier ones
-      // Ensure result.value is an object before spreading
+      // Keep fulfilled results as layers, later sources override earlier ones
+      // Ensure result.value is an object before merging
       if (result.value && typeof result.value === "object") {
-        mergedSecrets = { ...mergedSecrets, ...result.value };
+        const { name, keys, priority } = sources[index];
+        const values = keys
+          ? Object.fromEntries(
+              Object.entries(result.value).filter(([key]) => keys.has(key))
+            )
+          : result.value;
+        layers.push({
+          source: { type: "secrets", index, ...(name ? { name } : {}) },
+          values,
+          priority,
+        });
       } else if (result.value !== undefined && result.value !== null) {
         // Log a warning if the resolved value isn't an object as expected
         console.warn(
-          `⚠️ [schema-env] Warning: Secrets source function at index ${index} resolved with non-object value: ${typeof result.value}. Expected Record<string, string | undefined>.`
+          `⚠️ [schema-env] Warning: ${_capitalize(sources[index].label)} resolved with non-object value: ${typeof result.value}. Expected Record<string, string | undefined>.`
         );
       }
       // Ignore null/undefined results silently
     } else {
-      // Log warning on rejection (async error or caught sync error)
-      console.warn(
-        `⚠️ [schema-env] Warning: Secrets source function at index ${index} failed: ${
-          result.reason instanceof Error
-            ? result.reason.message
-            : String(result.reason)
-        }`
-      );
+      failures.push({
+        index,
+        reason: result.reason,
+        // The timeout message already names the source
+        message:
+          result.reason instanceof SecretSourceTimeoutError
+            ? `${result.reason.message}${attemptsNote(index)}`
+            : `${_capitalize(sources[index].label)} failed${attemptsNote(index)}: ${
+                result.reason instanceof Error
+                  ? result.reason.message
+                  : String(result.reason)
+              }`,
+      });
     }
   });
 
+  const allFailed = failures.length === secretsSources.length;
+  if (
+    failures.some((failure) => sources[failure.index].required) ||
+    (failurePolicy === "fail" && failures.length > 0) ||
+    (failurePolicy === "fail-if-all" && allFailed)
+  ) {
+    const issues = failures.map((failure) => ({
+      path: ["secretsSources", failure.index],
+      message: failure.message,
+    }));
+    throw new EnvValidationError(
+      "secrets",
+      issues,
+      `❌ Failed to fetch secrets:\n${issues
+        .map((issue) => `  - ${issue.path.join(".")}: ${issue.message}`)
+        .join("\n")}`,
+      {
+        cause:
+          failures.length === 1
+            ? failures[0].reason
+            : new AggregateError(
+                failures.map((failure) => failure.reason),
+                "Multiple secrets sources failed"
+              ),
+      }
+    );
+  }
+
+  // Log warning on rejection (async error, timeout or caught sync error)
+  for (const failure of failures) {
+    console.warn(`⚠️ [schema-env] Warning: ${failure.message}`);
+  }
+
   // Check if all sources failed *after* iterating through results
-  if (successfulFetches === 0 && secretsSources.length > 0) {
+  if (allFailed) {
     // ADR says log warnings and continue if *at least one* succeeds.
     // If *all* fail, we still proceed but log a more prominent warning.
     console.warn(
@@ -471,64 +1856,496 @@ async function _fetchSecrets(
         secretsSources.length
       } provided secretsSources functions failed to resolve successfully.`
     );
-    // We still return an empty object as per ADR (continue validation with other sources)
-    return {};
+    // We still return no secrets as per ADR (continue validation with other sources)
+    return [];
+  }
+
+  // Stable sort: equal priorities keep array order
+  return layers
+    .sort((a, b) => a.priority - b.priority)
+    .map(({ source, values }) => ({ source, values }));
+}
+
+/**
+ * Loads the secrets cache, if its encryption key is available.
+ * Returns `undefined` (after a warning) when the cache cannot be used.
+ * An unreadable cache file is ignored with a warning, and replaced on the next write.
+ * @internal
+ */
+async function _openSecretsCache(
+  options: SecretsCacheOptions,
+  context: Omit<SecretSourceContext, "signal">
+): Promise<
+  | {
+      options: SecretsCacheOptions;
+      key: string;
+      entries: Record<string, SecretsCacheEntry>;
+      changed: boolean;
+    }
+  | undefined
+> {
+  const { keyEnvVar = "SCHEMA_ENV_CACHE_KEY" } = options;
+  const key = context.runtimeEnv[keyEnvVar] || context.dotenv[keyEnvVar];
+  if (!key) {
+    console.warn(
+      `⚠️ [schema-env] Warning: Secrets cache disabled: ${keyEnvVar} is not set.`
+    );
+    return undefined;
+  }
+  let entries: Record<string, SecretsCacheEntry> = {};
+  try {
+    entries = await _readSecretsCache(options.path, key);
+  } catch (e) {
+    console.warn(
+      `⚠️ [schema-env] Warning: Ignoring secrets cache ${options.path}: ${
+        e instanceof Error ? e.message : String(e)
+      }`
+    );
+  }
+  return { options, key, entries, changed: false };
+}
+
+/**
+ * Writes the secrets cache back to disk. Failures are logged as warnings.
+ * @internal
+ */
+async function _saveSecretsCache(cache: {
+  options: SecretsCacheOptions;
+  key: string;
+  entries: Record<string, SecretsCacheEntry>;
+}): Promise<void> {
+  try {
+    await _writeSecretsCache(cache.options.path, cache.key, cache.entries);
+  } catch (e) {
+    console.warn(
+      `⚠️ [schema-env] Warning: Could not write secrets cache ${
+        cache.options.path
+      }: ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+}
+
+/**
+ * Lists the variables whose values may hold secret references, by full name: the schema's
+ * variables or, with a custom validator, the prefixed variables supplied by the `.env` files
+ * and secrets sources. Variables only found in the runtime environment are never resolved,
+ * since the app did not declare them.
+ * @internal
+ */
+function _secretReferenceNames(
+  options: { schema?: unknown; prefix?: string; nestingDelimiter?: string },
+  layers: EnvSourceLayer[]
+): string[] {
+  const { prefix = "" } = options;
+  return (
+    _schemaVariableNames(options) ?? [
+      ...new Set(
+        layers
+          .flatMap((layer) => Object.keys(layer.values))
+          .filter((key) => key.startsWith(prefix))
+      ),
+    ]
+  );
+}
+
+/**
+ * Replaces secret reference URIs in the merged values with what their resolvers return.
+ * Only the given variables are considered (see `_secretReferenceNames`),
+ * and values whose scheme has no registered resolver are left untouched. References are resolved
+ * concurrently, each with the secrets timeout and retry settings; any failure throws an
+ * `EnvValidationError` (`phase: "secrets"`) listing every unresolved key.
+ * Returns the updated environment and the keys that were resolved, without the prefix.
+ * @internal
+ */
+async function _resolveSecretReferences(
+  merged: MergedEnvironment,
+  names: string[],
+  resolvers: Record<string, SecretResolver> | undefined,
+  settings: {
+    timeoutMs?: number;
+    retry?: SecretsRetryOptions;
+    signal?: AbortSignal;
+    prefix?: string;
+  } = {}
+): Promise<{ merged: MergedEnvironment; resolvedKeys: string[] }> {
+  const { prefix = "" } = settings;
+  const references: { key: string; scheme: string; reference: string }[] = [];
+  for (const key of names) {
+    const value = merged.values[key];
+    const scheme =
+      typeof value === "string"
+        ? /^([a-z][a-z\d+.-]*):\/\//i.exec(value)?.[1].toLowerCase()
+        : undefined;
+    if (scheme && resolvers && Object.hasOwn(resolvers, scheme)) {
+      references.push({ key, scheme, reference: value as string });
+    }
+  }
+  if (references.length === 0) {
+    return { merged, resolvedKeys: [] };
+  }
+
+  const results = await Promise.allSettled(
+    references.map(async ({ key, scheme, reference }) => {
+      const url = new URL(reference);
+      const value = await _fetchSecretSource(
+        (signal) => resolvers![scheme](url, { key, signal }),
+        `secret reference in ${key}`,
+        settings.timeoutMs,
+        settings.retry,
+        settings.signal
+      );
+      if (typeof value !== "string") {
+        throw new Error(
+          `Resolver for "${scheme}://" returned ${typeof value}, expected a string`
+        );
+      }
+      return value;
+    })
+  );
+  // Cancellation wins over individual failures
+  if (settings.signal?.aborted) {
+    throw _abortError(settings.signal);
+  }
+
+  const values = { ...merged.values };
+  const failures: { key: string; reason: unknown; message: string }[] = [];
+  results.forEach((result, index) => {
+    const { key, reference } = references[index];
+    if (result.status === "fulfilled") {
+      values[key] = result.value;
+    } else {
+      const reason: unknown = result.reason;
+      failures.push({
+        key,
+        reason,
+        message:
+          reason instanceof SecretSourceTimeoutError
+            ? reason.message
+            : `Could not resolve "${reference}": ${
+                reason instanceof Error ? reason.message : String(reason)
+              }`,
+      });
+    }
+  });
+
+  if (failures.length > 0) {
+    const issues = failures.map((failure) => ({
+      path: [failure.key],
+      message: failure.message,
+    }));
+    throw new EnvValidationError(
+      "secrets",
+      issues,
+      `❌ Failed to resolve secret references:\n${issues
+        .map((issue) => `  - ${issue.path.join(".")}: ${issue.message}`)
+        .join("\n")}`,
+      {
+        cause:
+          failures.length === 1
+            ? failures[0].reason
+            : new AggregateError(
+                failures.map((failure) => failure.reason),
+                "Multiple secret references failed to resolve"
+              ),
+      }
+    );
   }
 
-  return mergedSecrets;
+  return {
+    merged: { values, provenance: merged.provenance },
+    resolvedKeys: references.map((reference) =>
+      reference.key.slice(prefix.length)
+    ),
+  };
+}
+
+/**
+ * Unwraps optional, nullable, default and effects wrappers, e.g. to find nested objects.
+ * @internal
+ */
+function _unwrapZodType(type: z.ZodTypeAny): z.ZodTypeAny {
+  if (
+    type instanceof z.ZodOptional ||
+    type instanceof z.ZodNullable ||
+    type instanceof z.ZodDefault
+  ) {
+    return _unwrapZodType(type._def.innerType as z.ZodTypeAny);
+  }
+  return type instanceof z.ZodEffects ? _unwrapZodType(type.innerType()) : type;
+}
+
+/**
+ * Lists the full variable names declared by a Zod object schema: with the `prefix`, and with
+ * nested objects spelled out when a `nestingDelimiter` is set (`DB: { HOST }` gives `DB__HOST`).
+ * Returns `undefined` for a custom validator.
+ * @internal
+ */
+function _schemaVariableNames(options: {
+  schema?: unknown;
+  prefix?: string;
+  nestingDelimiter?: string;
+}): string[] | undefined {
+  const { schema, prefix = "", nestingDelimiter } = options;
+  if (!(schema instanceof ZodObject)) {
+    return undefined;
+  }
+  const names = (shape: z.ZodRawShape, path: string): string[] =>
+    Object.entries(shape).flatMap(([key, type]) => {
+      const inner = _unwrapZodType(type);
+      return nestingDelimiter && inner instanceof ZodObject
+        ? names(inner.shape, `${path}${key}${nestingDelimiter}`)
+        : [`${path}${key}`];
+    });
+  return names(schema.shape, prefix);
+}
+
+/**
+ * Builds the context passed to secrets sources from the loaded `.env` values.
+ * @internal
+ */
+function _secretSourceContext(
+  options: {
+    schema?: unknown;
+    prefix?: string;
+    nestingDelimiter?: string;
+    runtimeEnv?: Record<string, string | undefined>;
+  },
+  dotEnv: MergedEnvironment
+): Omit<SecretSourceContext, "signal"> {
+  const dotenvValues = Object.freeze({ ...dotEnv.values }) as Readonly<
+    Record<string, string>
+  >;
+  const runtimeEnv = Object.freeze({ ..._runtimeEnv(options) });
+  // Sources supply the full variable names
+  const schemaKeys = _schemaVariableNames(options) ?? [];
+  const missingKeys = schemaKeys.filter(
+    (key) => dotenvValues[key] === undefined && runtimeEnv[key] === undefined
+  );
+  return {
+    dotenv: dotenvValues,
+    runtimeEnv,
+    schemaKeys: Object.freeze(schemaKeys),
+    missingKeys: Object.freeze(missingKeys),
+  };
+}
+
+/**
+ * Determines the correct validator adapter based on options.
+ * Checks for mutual exclusivity and ensures a valid adapter (either default Zod or custom) is available.
+ * @internal
+ * @template TSchema The Zod object schema type if provided.
+ * @template TResult The expected result type.
+ * @param options The base options containing `schema` and/or `validator`.
+ * @returns The determined `ValidatorAdapter`.
+ * @throws {Error} If both `schema` and `validator` are provided.
+ * @throws {Error} If `schema` is provided but is not a `ZodObject`.
+ * @throws {Error} If neither `schema` nor `validator` is provided.
+ */
+function _getValidatorAdapter<
+  // Use AnyZodObject here for the constraint
+  TSchema extends z.AnyZodObject | undefined,
+  TResult = TSchema extends z.AnyZodObject ? z.infer<TSchema> : unknown,
+>(
+  options: Omit<CreateEnvBaseOptions<TSchema, TResult>, "fileSystem">
+): ValidatorAdapter<TResult> {
+  const { schema, validator } = options;
+
+  // 1. Check for mutual exclusivity
+  if (schema && validator) {
+    throw new Error("Cannot provide both 'schema' and 'validator' options.");
+  }
+
+  // 2. Use custom validator if provided
+  if (validator) {
+    // Type assertion needed here because TResult is determined by the caller's generic
+    return validator as ValidatorAdapter<TResult>;
+  }
+
+  // 3. Use default Zod adapter if schema is provided and valid
+  if (schema) {
+    // The runtime check remains instanceof ZodObject
+    if (!(schema instanceof ZodObject)) {
+      throw new Error(
+        "Invalid 'schema' provided. Expected a ZodObject when 'validator' is not used."
+      );
+    }
+    // We know schema is a ZodObject here due to the runtime check
+    // Cast needed to align with the broader TResult generic
+    return new ZodValidatorAdapter(
+      schema
+    ) as unknown as ValidatorAdapter<TResult>;
+  }
+
+  // 4. Throw if neither is provided
+  throw new Error("Must provide either a 'schema' or a 'validator' option.");
+}
+
+/**
+ * Tells split (`server`/`client`) options apart from `schema`/`validator` options.
+ * @internal
+ */
+function _isSplitEnvOptions(
+  options: object
+): options is CreateSplitEnvOptions<z.AnyZodObject, z.AnyZodObject> {
+  return "server" in options || "client" in options;
+}
+
+/**
+ * Checks the split schemas, and returns the schema to validate in the current context
+ * (server and client variables on the server, client variables only in the browser).
+ * @internal
+ * @throws {Error} If a client key lacks the client prefix, or a server key has it,
+ * or `runtimeEnv` is missing on the client.
+ */
+function _splitEnvSchema(
+  options: CreateSplitEnvOptions<z.AnyZodObject, z.AnyZodObject>
+): { schema: z.AnyZodObject; isServer: boolean } {
+  const { server, client, clientPrefix } = options;
+  if (options.schema || options.validator) {
+    throw new Error(
+      "Cannot provide 'schema' or 'validator' together with 'server' and 'client'."
+    );
+  }
+  if (!(server instanceof ZodObject) || !(client instanceof ZodObject)) {
+    throw new Error(
+      "Invalid 'server' or 'client' option. Expected ZodObjects."
+    );
+  }
+  if (!clientPrefix) {
+    throw new Error("'clientPrefix' is required with 'server' and 'client'.");
+  }
+  for (const key of Object.keys(client.shape)) {
+    if (!key.startsWith(clientPrefix)) {
+      throw new Error(
+        `Client variable '${key}' must start with the client prefix '${clientPrefix}'.`
+      );
+    }
+  }
+  for (const key of Object.keys(server.shape)) {
+    if (key.startsWith(clientPrefix)) {
+      throw new Error(
+        `Server variable '${key}' must not start with the client prefix '${clientPrefix}'.`
+      );
+    }
+  }
+
+  const isServer = options.isServer ?? !("window" in globalThis);
+  if (!isServer && !options.runtimeEnv) {
+    throw new Error(
+      "'runtimeEnv' is required on the client (e.g. 'import.meta.env'), since there is no process.env."
+    );
+  }
+  return { schema: isServer ? server.merge(client) : client, isServer };
+}
+
+/**
+ * Wraps a client-side environment object so that reading a server-only variable throws.
+ * The provenance of the wrapped object stays available through `getEnvProvenance`.
+ * @internal
+ */
+function _guardServerVariables<TResult>(
+  env: TResult,
+  serverKeys: ReadonlySet<string>
+): TResult {
+  if (typeof env !== "object" || env === null) {
+    return env;
+  }
+  const guarded = new Proxy(env, {
+    get(target, property, receiver) {
+      if (typeof property === "string" && serverKeys.has(property)) {
+        throw new Error(
+          `❌ Attempted to access server-side environment variable '${property}' on the client.`
+        );
+      }
+      return Reflect.get(target, property, receiver) as unknown;
+    },
+  });
+  const provenance = envProvenanceRegistry.get(env);
+  if (provenance) {
+    envProvenanceRegistry.set(guarded, provenance);
+  }
+  return guarded;
+}
+
+/**
+ * Implements `createEnv` for `schema`/`validator` options.
+ * @internal
+ */
+function _createEnv<TResult>(
+  options: CreateEnvOptions<z.AnyZodObject | undefined, TResult>
+): TResult {
+  // 1. Determine validator adapter (throws on invalid option combinations)
+  const adapter = _getValidatorAdapter(options);
+  const sensitiveKeys = _resolveSensitiveKeys(options);
+
+  // 2. Load .env files (respecting NODE_ENV) - Can throw sync
+  // 3. Expand .env values if enabled - Should not throw
+  const dotEnv = _loadDotEnvStage(options);
+
+  // 4. Merge with the runtime environment (process.env by default)
+  const merged = _mergeProcessEnv(dotEnv.expanded, _runtimeEnv(options));
+
+  // --- Add Debug Log ---
+  // console.log("--- DEBUG [createEnv] ---");
+  // console.log("Incoming process.env.NODE_ENV:", process.env.NODE_ENV);
+  // console.log("Incoming process.env.TARGET:", process.env.TARGET);
+  // console.log("dotEnv.expanded (after expansion):", dotEnv.expanded);
+  // console.log("merged (final merge before validation):", merged);
+  // console.log("--- END DEBUG [createEnv] ---");
+  // --- End Debug Log ---
+
+  // 5. Validate against schema using the chosen adapter
+  // 6. Handle validation outcome (throws) and return the strongly typed parsed data
+  return _validateMergedEnvironment(adapter, merged, sensitiveKeys, options);
 }
 
 /**
- * Determines the correct validator adapter based on options.
- * Checks for mutual exclusivity and ensures a valid adapter (either default Zod or custom) is available.
+ * Implements `createEnv` for `server`/`client` options.
  * @internal
- * @template TSchema The Zod object schema type if provided.
- * @template TResult The expected result type.
- * @param options The base options containing `schema` and/or `validator`.
- * @returns The determined `ValidatorAdapter`.
- * @throws {Error} If both `schema` and `validator` are provided.
- * @throws {Error} If `schema` is provided but is not a `ZodObject`.
- * @throws {Error} If neither `schema` nor `validator` is provided.
  */
-function _getValidatorAdapter<
-  // Use AnyZodObject here for the constraint
-  TSchema extends z.AnyZodObject | undefined,
-  TResult = TSchema extends z.AnyZodObject ? z.infer<TSchema> : unknown,
->(options: CreateEnvBaseOptions<TSchema, TResult>): ValidatorAdapter<TResult> {
-  const { schema, validator } = options;
+function _createSplitEnv(
+  options: CreateSplitEnvOptions<z.AnyZodObject, z.AnyZodObject>
+): unknown {
+  const split = _splitEnvSchema(options);
+  const env = _createEnv({
+    ...options,
+    schema: split.schema,
+    // Browsers have no file system to read .env files from
+    dotEnvPath: options.dotEnvPath ?? (split.isServer ? undefined : false),
+  });
+  return split.isServer
+    ? env
+    : _guardServerVariables(env, new Set(Object.keys(options.server.shape)));
+}
 
-  // 1. Check for mutual exclusivity
-  if (schema && validator) {
-    throw new Error("Cannot provide both 'schema' and 'validator' options.");
-  }
+// --- Public API (Updated Types) ---
 
-  // 2. Use custom validator if provided
-  if (validator) {
-    // Type assertion needed here because TResult is determined by the caller's generic
-    return validator as ValidatorAdapter<TResult>;
-  }
+/** Provenance of every environment object returned by `createEnv`/`createEnvAsync`. */
+const envProvenanceRegistry = new WeakMap<object, EnvProvenance>();
 
-  // 3. Use default Zod adapter if schema is provided and valid
-  if (schema) {
-    // The runtime check remains instanceof ZodObject
-    if (!(schema instanceof ZodObject)) {
-      throw new Error(
-        "Invalid 'schema' provided. Expected a ZodObject when 'validator' is not used."
-      );
-    }
-    // We know schema is a ZodObject here due to the runtime check
-    // Cast needed to align with the broader TResult generic
-    return new ZodValidatorAdapter(
-      schema
-    ) as unknown as ValidatorAdapter<TResult>;
+/**
+ * Returns the source that supplied each variable of an environment object
+ * returned by `createEnv` or `createEnvAsync`.
+ *
+ * Variables that were not supplied by any source (e.g., filled in by schema defaults)
+ * have no entry.
+ *
+ * @example
+ * ```js
+ * const env = createEnv({ schema });
+ * getEnvProvenance(env)?.PORT; // { type: "dotenv", path: "./.env.production" }
+ * ```
+ *
+ * @param env - An object returned by `createEnv` or `createEnvAsync`.
+ * @returns The provenance map, or `undefined` if `env` was not created by schema-env.
+ */
+export function getEnvProvenance(env: unknown): EnvProvenance | undefined {
+  if (typeof env !== "object" || env === null) {
+    return undefined;
   }
-
-  // 4. Throw if neither is provided
-  throw new Error("Must provide either a 'schema' or a 'validator' option.");
+  return envProvenanceRegistry.get(env);
 }
 
-// --- Public API (Updated Types) ---
-
 /**
  * Validates and parses environment variables synchronously.
  * Supports Zod schema validation (default via `schema` option) or a custom
@@ -536,7 +2353,7 @@ function _getValidatorAdapter<
  *
  * Loads variables from `.env` files (specified paths, base, and environment-specific) and `process.env`.
  * Optionally expands variables using `dotenv-expand`.
- * Throws an error if validation fails, ensuring environment safety at startup.
+ * Throws an `EnvValidationError` if validation fails, ensuring environment safety at startup.
  *
  * Use this for standard synchronous initialization. For fetching secrets from
  * external systems asynchronously, use `createEnvAsync`.
@@ -544,8 +2361,26 @@ function _getValidatorAdapter<
  * You **must** provide either the `schema` option (for default Zod validation)
  * or the `validator` option (for custom validation), but not both.
  *
+ * For env modules shared between a Node server and a browser bundle, pass `server` and
+ * `client` schemas with a `clientPrefix` instead. On the server, both schemas are validated.
+ * In the browser (or with `isServer: false`), only the `client` schema is validated, and the
+ * returned object throws when a `server` variable is read, so that server-only code paths
+ * fail loudly instead of reading `undefined`. There, `runtimeEnv` is required and no `.env`
+ * files are read unless `dotEnvPath` is given.
+ *
+ * @example
+ * ```js
+ * export const env = createEnv({
+ *   server: z.object({ DATABASE_URL: z.string().url() }),
+ *   client: z.object({ PUBLIC_API_URL: z.string().url() }),
+ *   clientPrefix: "PUBLIC_",
+ *   // process.env on the server, the bundler's variables in the browser
+ *   runtimeEnv: typeof window === "undefined" ? process.env : import.meta.env,
+ * });
+ * ```
+ *
  * The final precedence order for variables is:
- * 1. `process.env` (Highest priority)
+ * 1. `process.env`, or the `runtimeEnv` option (Highest priority)
  * 2. Environment-specific file (e.g., `.env.production`) if `NODE_ENV` is set and `dotEnvPath` is not false.
  * 3. Files specified in `dotEnvPath` array (later files override earlier ones) / Single `dotEnvPath` file / Default `./.env` (if `dotEnvPath` is not false).
  * 4. Defaults defined in the validation schema/logic (Lowest priority - applied by Zod or custom adapter during validation).
@@ -555,67 +2390,33 @@ function _getValidatorAdapter<
  *
  * @template TSchema - The Zod object schema type (`z.AnyZodObject`) if using default validation. Leave `undefined` if using `validator`.
  * @template TResult - The expected type of the validated environment object. Inferred from TSchema if using Zod, otherwise requires explicit specification (e.g., `createEnv<undefined, MyCustomType>({ validator: ... })`).
- * @param options - Configuration options. Requires either `schema` OR `validator`.
+ * @template TServer - The Zod object schema of server variables, if using `server`/`client`.
+ * @template TClient - The Zod object schema of client variables, if using `server`/`client`.
+ * @param options - Configuration options. Requires either `schema` OR `validator` OR `server` and `client`.
  * @returns {TResult} The validated environment object.
- * @throws {Error} If validation fails, options are invalid (e.g., both `schema` and `validator` provided, or neither), or file loading encounters critical errors.
+ * @throws {EnvValidationError} If validation fails or file loading encounters critical errors. Inspect `phase` and `issues` for details.
+ * @throws {Error} If options are invalid (e.g., both `schema` and `validator` provided, or neither, or a client variable lacks the `clientPrefix`, or `runtimeEnv` is missing on the client).
  */
 // Use AnyZodObject for the TSchema constraint
 export function createEnv<
   TSchema extends z.AnyZodObject | undefined,
   TResult = TSchema extends z.AnyZodObject ? z.infer<TSchema> : unknown,
->(options: CreateEnvOptions<TSchema, TResult>): TResult {
-  const {
-    dotEnvPath,
-    expandVariables = false,
-    _internalDotenvExpand = expand, // _internalDotenvConfig removed
-  } = options;
-
-  // 1. Determine validator adapter (throws on invalid option combinations)
-  const adapter = _getValidatorAdapter(options);
-
-  // 2. Load .env files (respecting NODE_ENV) - Can throw sync
-  const mergedDotEnvParsed = _loadDotEnvFiles(
-    dotEnvPath,
-    process.env.NODE_ENV // Use actual process.env value here for deciding which env-specific file to load
-    // _internalDotenvConfig removed from call
-  );
-
-  // 3. Expand .env values if enabled - Should not throw
-  const finalDotEnvValues = _expandDotEnvValues(
-    mergedDotEnvParsed,
-    expandVariables,
-    _internalDotenvExpand
-  );
-
-  // 4. Merge with process.env
-  const sourceForValidation = _mergeProcessEnv(finalDotEnvValues);
-
-  // --- Add Debug Log ---
-  // console.log("--- DEBUG [createEnv] ---");
-  // console.log("Incoming process.env.NODE_ENV:", process.env.NODE_ENV);
-  // console.log("Incoming process.env.TARGET:", process.env.TARGET);
-  // console.log("mergedDotEnvParsed (from files):", mergedDotEnvParsed);
-  // console.log("finalDotEnvValues (after expansion):", finalDotEnvValues);
-  // console.log(
-  //   "sourceForValidation (final merge before validation):",
-  //   sourceForValidation
-  // );
-  // console.log("--- END DEBUG [createEnv] ---");
-  // --- End Debug Log ---
-
-  // 5. Validate against schema using the chosen adapter
-  const validationResult = _validateEnvironment(adapter, sourceForValidation);
-
-  // 6. Handle validation outcome
-  if (!validationResult.success) {
-    // Use the updated error formatter
-    const errorMessage = _formatValidationError(validationResult.error);
-    console.error(errorMessage); // Log details
-    throw new Error("Environment validation failed. Check console output.");
+  TServer extends z.AnyZodObject = never,
+  TClient extends z.AnyZodObject = never,
+>(
+  options:
+    | CreateEnvOptions<TSchema, TResult>
+    | CreateSplitEnvOptions<TServer, TClient>
+): CreateEnvResult<TResult, TServer, TClient> {
+  if (_isSplitEnvOptions(options)) {
+    return _createSplitEnv(options) as CreateEnvResult<
+      TResult,
+      TServer,
+      TClient
+    >;
   }
 
-  // Return the strongly typed parsed data
-  return validationResult.data;
+  return _createEnv(options) as CreateEnvResult<TResult, TServer, TClient>;
 }
 
 /**
@@ -634,97 +2435,100 @@ export function createEnv<
  * or the `validator` option (for custom validation), but not both.
  *
  * The final precedence order for variables is:
- * 1. `process.env` (Highest priority)
- * 2. Variables fetched via `secretsSources` (Later sources override earlier ones).
+ * 1. `process.env`, or the `runtimeEnv` option (Highest priority)
+ * 2. Variables fetched via `secretsSources` (Higher `priority` wins; for equal priorities, later sources override earlier ones).
  * 3. Environment-specific file (e.g., `.env.production`) if `NODE_ENV` is set and `dotEnvPath` is not false.
  * 4. Files specified in `dotEnvPath` array (later files override earlier ones) / Single `dotEnvPath` file / Default `./.env` (if `dotEnvPath` is not false).
  * 5. Defaults defined in the validation schema/logic (Lowest priority - applied by Zod or custom adapter during validation).
  *
  * Note: Variable expansion (`expandVariables: true`) happens *after* all `.env` files (3, 4) are merged,
  * but *before* merging with `secretsSources` (2) and `process.env` (1).
+ * Secret reference URIs (`secretResolvers`) are resolved *after* all sources are merged.
  *
  * @template TSchema - The Zod object schema type (`z.AnyZodObject`) if using default validation. Leave `undefined` if using `validator`.
  * @template TResult - The expected type of the validated environment object. Inferred from TSchema if using Zod, otherwise requires explicit specification (e.g., `createEnvAsync<undefined, MyCustomType>({ validator: ... })`).
  * @param options - Configuration options. Requires either `schema` OR `validator`.
  * @returns {Promise<TResult>} A Promise resolving to the validated environment object.
  * @throws {Error} If options are invalid (e.g., both `schema` and `validator` provided, or neither) (synchronous throw).
- * @throws {Error} If synchronous file loading encounters critical errors (synchronous throw).
- * @rejects {Error} If asynchronous operations or validation fail.
+ * @throws {EnvValidationError} If file loading encounters critical errors (`phase: "file-load"`).
+ * @rejects {EnvValidationError} If secrets sources fail under `secretsFailurePolicy` or `required`, or a secret reference cannot be resolved (`phase: "secrets"`).
+ * @rejects {EnvValidationError} If validation fails (`phase: "validation"`).
+ * @rejects {EnvAbortError} If the `signal` option is aborted before loading completes.
+ * @rejects {Error} If other asynchronous operations fail.
  */
 // Use AnyZodObject for the TSchema constraint
 export async function createEnvAsync<
   TSchema extends z.AnyZodObject | undefined,
   TResult = TSchema extends z.AnyZodObject ? z.infer<TSchema> : unknown,
 >(options: CreateEnvAsyncOptions<TSchema, TResult>): Promise<TResult> {
-  const {
-    dotEnvPath,
-    expandVariables = false,
-    secretsSources,
-    _internalDotenvExpand = expand, // _internalDotenvConfig removed
-  } = options;
+  const { secretsSources } = options;
 
   // 1. Determine validator adapter (throws on invalid option combinations)
   // This synchronous check happens before any async operations.
   const adapter = _getValidatorAdapter(options);
+  const sensitiveKeys = _resolveSensitiveKeys(options);
+  if (options.signal?.aborted) {
+    return Promise.reject(_abortError(options.signal));
+  }
 
-  // --- Synchronous Operations ---
-  // Any synchronous errors thrown here will cause the promise to reject implicitly.
-  // 2. Load .env files (respecting NODE_ENV)
-  const mergedDotEnvParsed: dotenv.DotenvParseOutput = _loadDotEnvFiles(
-    dotEnvPath,
-    process.env.NODE_ENV // Use actual process.env value here for deciding which env-specific file to load
-    // _internalDotenvConfig removed from call
-  );
+  // Any errors thrown here will cause the promise to reject implicitly.
+  // 2. Load .env files (respecting NODE_ENV), through `fileSystem` if given
   // 3. Expand .env values if enabled
-  const expandedDotEnvValues: dotenv.DotenvParseOutput = _expandDotEnvValues(
-    mergedDotEnvParsed,
-    expandVariables,
-    _internalDotenvExpand
-  );
+  const dotEnv = await _loadDotEnvStageAsync(options);
 
   // Now handle the async part
   try {
     // 4. Fetch secrets asynchronously
-    const secretsValues = await _fetchSecrets(secretsSources);
+    const secretsLayers = await _fetchSecrets(
+      secretsSources,
+      _secretSourceContext(options, dotEnv.expanded),
+      {
+        timeoutMs: options.secretsTimeoutMs,
+        retry: options.secretsRetry,
+        failurePolicy: options.secretsFailurePolicy,
+        signal: options.signal,
+        cache: options.secretsCache,
+      }
+    );
 
     // 5. Merge sources in correct async precedence: .env -> secrets -> process.env
-    const sourceBeforeProcessEnv: EnvironmentInput = {
-      ...expandedDotEnvValues,
-      ...secretsValues,
-    };
-    const sourceForValidation = _mergeProcessEnv(sourceBeforeProcessEnv);
+    const sourceBeforeProcessEnv = _mergeLayers(secretsLayers, dotEnv.expanded);
+    // 6. Resolve secret reference URIs in the merged values
+    const { merged, resolvedKeys } = await _resolveSecretReferences(
+      _mergeProcessEnv(sourceBeforeProcessEnv, _runtimeEnv(options)),
+      _secretReferenceNames(options, [...dotEnv.layers, ...secretsLayers]),
+      options.secretResolvers,
+      {
+        timeoutMs: options.secretsTimeoutMs,
+        retry: options.secretsRetry,
+        signal: options.signal,
+        prefix: options.prefix,
+      }
+    );
 
     // --- Add Debug Log ---
     // console.log("--- DEBUG [createEnvAsync] ---");
     // console.log("Incoming process.env.NODE_ENV:", process.env.NODE_ENV);
-    // console.log("Incoming process.env.TARGET:", process.env.TARGET);
-    // console.log("mergedDotEnvParsed (from files):", mergedDotEnvParsed);
-    // console.log("expandedDotEnvValues (after expansion):", expandedDotEnvValues);
-    // console.log("secretsValues (from sources):", secretsValues);
-    // console.log(
-    //   "sourceBeforeProcessEnv (.env+secrets):",
-    //   sourceBeforeProcessEnv
-    // );
-    // console.log(
-    //   "sourceForValidation (final merge before validation):",
-    //   sourceForValidation
-    // );
+    // console.log("dotEnv.expanded (after expansion):", dotEnv.expanded);
+    // console.log("secretsLayers (from sources):", secretsLayers);
+    // console.log("merged (final merge before validation):", merged);
     // console.log("--- END DEBUG [createEnvAsync] ---");
     // --- End Debug Log ---
 
-    // 6. Validate against schema using the chosen adapter
-    const validationResult = _validateEnvironment(adapter, sourceForValidation);
-
-    // 7. Handle validation outcome
-    if (!validationResult.success) {
-      const errorMessage = _formatValidationError(validationResult.error);
-      console.error(errorMessage); // Log details
-      // Throw an error to cause the promise rejection
-      throw new Error("Environment validation failed. Check console output.");
+    // An abort during any of the steps above rejects, even when no step observed the signal
+    if (options.signal?.aborted) {
+      return Promise.reject(_abortError(options.signal));
     }
 
+    // 7. Validate against schema using the chosen adapter
+    // 8. Handle validation outcome (throws to cause the promise rejection)
     // Resolve the promise with the strongly typed parsed data
-    return validationResult.data;
+    return _validateMergedEnvironment(
+      adapter,
+      merged,
+      new Set([...sensitiveKeys, ...resolvedKeys]),
+      options
+    );
   } catch (error) {
     // Catch errors from _fetchSecrets or validation fail above
     if (error instanceof Error) {
@@ -737,3 +2541,606 @@ export async function createEnvAsync<
     }
   }
 }
+
+/**
+ * Explains how each environment variable is resolved, without throwing on validation failure.
+ *
+ * Runs the same pipeline as `createEnvAsync` (and `createEnv` when no `secretsSources` are given):
+ * `.env` files, expansion, secrets and `process.env`. For every variable, returns each candidate
+ * value seen across the sources in precedence order, the winning source, and whether expansion
+ * changed the value. Useful for debugging precedence surprises.
+ *
+ * The variables explained are the keys of the Zod `schema`. When a custom `validator` is used,
+ * every variable supplied by a `.env` file or a secrets source is explained instead.
+ * With a `prefix`, variables are listed under their full names (e.g. `BILLING_PORT`).
+ * Values of sensitive keys are reported as `"[REDACTED]"`.
+ *
+ * @example
+ * ```js
+ * const { variables } = await explainEnv({ schema, dotEnvPath: [".env", ".env.local"] });
+ * variables.PORT.candidates;
+ * // [
+ * //   { source: { type: "process.env" }, value: "8080" },
+ * //   { source: { type: "dotenv", path: ".env.local" }, value: "3001" },
+ * //   { source: { type: "dotenv", path: ".env" }, value: "3000" },
+ * // ]
+ * ```
+ *
+ * @param options - The same options accepted by `createEnvAsync`.
+ * @returns {Promise<EnvExplanation>} The resolution trace and validation outcome.
+ * @rejects {EnvValidationError} If file loading encounters critical errors (`phase: "file-load"`).
+ * @rejects {EnvValidationError} If secrets sources fail under `secretsFailurePolicy` or `required`, or a secret reference cannot be resolved (`phase: "secrets"`).
+ * @rejects {EnvAbortError} If the `signal` option is aborted while fetching secrets.
+ * @rejects {Error} If options are invalid (e.g., both `schema` and `validator` provided, or neither).
+ */
+export async function explainEnv<
+  TSchema extends z.AnyZodObject | undefined,
+  TResult = TSchema extends z.AnyZodObject ? z.infer<TSchema> : unknown,
+>(options: CreateEnvAsyncOptions<TSchema, TResult>): Promise<EnvExplanation> {
+  const adapter = _getValidatorAdapter(options);
+
+  // Same steps as createEnvAsync, keeping every layer
+  const dotEnv = await _loadDotEnvStageAsync(options);
+  const secretsLayers = await _fetchSecrets(
+    options.secretsSources,
+    _secretSourceContext(options, dotEnv.expanded),
+    {
+      timeoutMs: options.secretsTimeoutMs,
+      retry: options.secretsRetry,
+      failurePolicy: options.secretsFailurePolicy,
+      signal: options.signal,
+      cache: options.secretsCache,
+    }
+  );
+  const processEnvLayer = _processEnvLayer(_runtimeEnv(options));
+  const { merged, resolvedKeys } = await _resolveSecretReferences(
+    _mergeLayers([...secretsLayers, processEnvLayer], dotEnv.expanded),
+    _secretReferenceNames(options, [...dotEnv.layers, ...secretsLayers]),
+    options.secretResolvers,
+    {
+      timeoutMs: options.secretsTimeoutMs,
+      retry: options.secretsRetry,
+      signal: options.signal,
+      prefix: options.prefix,
+    }
+  );
+  const sensitiveKeys = new Set([
+    ..._resolveSensitiveKeys(options),
+    ...resolvedKeys,
+  ]);
+
+  // Layers in merge order: .env files -> secrets -> process.env
+  const layers = [...dotEnv.layers, ...secretsLayers, processEnvLayer];
+  const { prefix = "" } = options;
+  const keys =
+    _schemaVariableNames(options) ??
+    [
+      ...new Set(
+        [...dotEnv.layers, ...secretsLayers].flatMap((layer) =>
+          Object.keys(layer.values)
+        )
+      ),
+    ].filter((key) => key.startsWith(prefix));
+
+  // Variables are explained under their full names
+  const variables: Record<string, EnvVariableExplanation> = {};
+  for (const key of keys) {
+    const isSensitive = _isSensitiveName(
+      key.slice(prefix.length),
+      sensitiveKeys,
+      options.nestingDelimiter
+    );
+    const candidates: EnvValueCandidate[] = [];
+    for (const layer of layers) {
+      const value = layer.values[key];
+      if (value !== undefined) {
+        candidates.unshift({
+          source: layer.source,
+          value: isSensitive ? REDACTED_VALUE : value,
+        });
+      }
+    }
+    const source = merged.provenance[key];
+    const mergedValue = merged.values[key] as string | undefined;
+    const value =
+      isSensitive && mergedValue !== undefined ? REDACTED_VALUE : mergedValue;
+    variables[key] = {
+      candidates,
+      ...(source ? { source } : {}),
+      ...(value !== undefined ? { value } : {}),
+      expanded:
+        dotEnv.raw[key] !== undefined &&
+        dotEnv.raw[key] !== dotEnv.expanded.values[key],
+    };
+  }
+
+  const input = _stripPrefix(merged, prefix);
+  const validationResult = _validateEnvironment(
+    adapter,
+    _nestValues(input.values, options.nestingDelimiter)
+  );
+  return {
+    variables,
+    success: validationResult.success,
+    issues: validationResult.success
+      ? []
+      : _prefixIssues(
+          _flattenIssues(
+            _redactIssues(
+              validationResult.error.issues,
+              sensitiveKeys,
+              input.values,
+              options.nestingDelimiter
+            ),
+            options.nestingDelimiter,
+            new Set(Object.keys(input.values))
+          ),
+          prefix
+        ),
+  };
+}
+
+/**
+ * Creates a secrets source that reads values from files, for Docker and Kubernetes secrets.
+ *
+ * - Every file in `directory` (default `/run/secrets`) supplies the variable named after the file.
+ * - Every `<KEY>_FILE` variable (from the `.env` files or `process.env`) supplies `<KEY>`
+ *   with the contents of the file it points to.
+ *
+ * Only the keys of the Zod `schema` are looked up, unless `keys` says otherwise.
+ *
+ * One trailing newline is removed from each value. Like other secrets sources, the values
+ * override `.env` files and are overridden by `process.env`.
+ *
+ * @example
+ * ```js
+ * // DB_PASSWORD_FILE=/run/secrets/db_password in .env or the container environment
+ * const env = await createEnvAsync({
+ *   schema,
+ *   secretsSources: [createFileSecretsSource({ required: true })],
+ * });
+ * ```
+ *
+ * @param options - Optional directory, suffix and source settings.
+ * @returns {SecretSourceConfig} A source for the `secretsSources` option.
+ */
+export function createFileSecretsSource(
+  options: FileSecretsSourceOptions = {}
+): SecretSourceConfig {
+  const {
+    directory = "/run/secrets",
+    fileSuffix = "_FILE",
+    name = "files",
+    keys,
+    priority,
+    required,
+  } = options;
+  return {
+    name,
+    ...(priority !== undefined ? { priority } : {}),
+    ...(required !== undefined ? { required } : {}),
+    // The files are already on disk
+    cache: false,
+    fetch: async ({ dotenv, runtimeEnv, schemaKeys }) => {
+      const wanted = keys ?? (schemaKeys.length > 0 ? schemaKeys : undefined);
+      return _loadSecretFiles(
+        directory,
+        fileSuffix,
+        { ...dotenv, ...runtimeEnv },
+        wanted ? new Set(wanted) : undefined
+      );
+    },
+  };
+}
+
+/**
+ * A `secretResolvers` entry for `file://` references: reads the file the URI points to.
+ * One trailing newline is removed from the value.
+ *
+ * @example
+ * ```js
+ * // .env: DB_PASSWORD=file:///run/secrets/db_password
+ * const env = await createEnvAsync({ schema, secretResolvers: { file: fileSecretResolver } });
+ * ```
+ *
+ * @param reference - A `file:` URL.
+ * @returns {Promise<string>} The contents of the file.
+ * @rejects {Error} If the file cannot be read.
+ */
+export async function fileSecretResolver(reference: URL): Promise<string> {
+  return _readSecretFile(fileURLToPath(reference));
+}
+
+// --- Watch Mode ---
+
+/**
+ * Lists the variables whose validated values differ between two environment objects.
+ * Values are compared with `Object.is`, falling back to their JSON form for objects and arrays.
+ * @internal
+ */
+function _diffEnv(previous: unknown, current: unknown): EnvChange[] {
+  const before = (previous ?? {}) as Record<string, unknown>;
+  const after = (current ?? {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  const changes: EnvChange[] = [];
+  for (const key of keys) {
+    const previousValue = before[key];
+    const currentValue = after[key];
+    const unchanged =
+      Object.is(previousValue, currentValue) ||
+      (typeof previousValue === "object" &&
+        typeof currentValue === "object" &&
+        JSON.stringify(previousValue) === JSON.stringify(currentValue));
+    if (!unchanged) {
+      changes.push({ key, previous: previousValue, current: currentValue });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Holds the last valid environment and reports reloads: `"change"` with the diff when
+ * a reload produced different values, `"error"` when it failed.
+ * @internal
+ */
+class EnvReloader<TResult> extends EventEmitter {
+  protected current: TResult;
+
+  constructor(initial: TResult) {
+    super();
+    this.current = initial;
+  }
+
+  get env(): TResult {
+    return this.current;
+  }
+
+  protected update(next: TResult): void {
+    const changes = _diffEnv(this.current, next);
+    this.current = next;
+    if (changes.length > 0) {
+      this.emit("change", next, changes);
+    }
+  }
+
+  protected fail(error: unknown): void {
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", err);
+    } else {
+      // An unhandled "error" event would crash the process; warn instead
+      console.warn(
+        `⚠️ [schema-env] Warning: Failed to reload the environment, keeping the previous values.\n${err.message}`
+      );
+    }
+  }
+}
+
+/**
+ * Watches the resolved `.env` files and revalidates the environment when they change.
+ * Watches the parent directory of each file, so files created after startup
+ * (e.g. a new `.env.development`) are picked up too.
+ * @internal
+ */
+class EnvFileWatcher<TResult>
+  extends EnvReloader<TResult>
+  implements EnvWatcher<TResult>
+{
+  private readonly watchers: fs.FSWatcher[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private closed = false;
+
+  constructor(
+    private readonly options: CreateEnvOptions<
+      z.AnyZodObject | undefined,
+      TResult
+    >,
+    private readonly debounceMs: number,
+    initial: TResult,
+    filePaths: string[]
+  ) {
+    super(initial);
+
+    // Group the watched file names by directory: one fs watcher per directory
+    const namesByDirectory = new Map<string, Set<string>>();
+    for (const filePath of filePaths) {
+      const directory = nodePath.dirname(nodePath.resolve(filePath));
+      const names = namesByDirectory.get(directory) ?? new Set<string>();
+      names.add(nodePath.basename(filePath));
+      namesByDirectory.set(directory, names);
+    }
+
+    for (const [directory, names] of namesByDirectory) {
+      try {
+        const watcher = fs.watch(directory, (_eventType, filename) => {
+          if (filename && names.has(filename.toString())) {
+            this.scheduleReload();
+          }
+        });
+        watcher.on("error", (error) => this.fail(error));
+        this.watchers.push(watcher);
+      } catch (e) {
+        console.warn(
+          `⚠️ [schema-env] Warning: Cannot watch directory ${directory}: ${
+            e instanceof Error ? e.message : String(e)
+          }`
+        );
+      }
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.timer);
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers.length = 0;
+  }
+
+  private scheduleReload(): void {
+    if (this.closed) {
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.reload(), this.debounceMs);
+  }
+
+  private reload(): void {
+    if (this.closed) {
+      return;
+    }
+    let next: TResult;
+    try {
+      next = createEnv(this.options);
+    } catch (error) {
+      this.fail(error);
+      return;
+    }
+    this.update(next);
+  }
+}
+
+/**
+ * Validates the environment like `createEnv`, then keeps it up to date as `.env` files change.
+ *
+ * Every path `createEnv` would load is watched, including the environment-specific
+ * `.env.${NODE_ENV}` file (even if it does not exist yet). After a change, the files are
+ * loaded, expanded and validated again. If the result is valid and differs from the previous
+ * one, a `"change"` event is emitted with the new environment object and a key-level diff.
+ * If it is invalid, an `"error"` event is emitted and the last valid environment is kept.
+ *
+ * The initial load throws exactly like `createEnv`. Call `close()` to stop watching.
+ * Files are watched on disk, so the `fileSystem` option is not supported.
+ *
+ * @example
+ * ```js
+ * const watcher = watchEnv({ schema }, (env, changes) => {
+ *   console.info("Environment reloaded:", changes.map((change) => change.key));
+ *   server.configure(env);
+ * });
+ * watcher.on("error", (error) => console.error(error.message));
+ * // Later: watcher.close();
+ * ```
+ *
+ * @template TSchema - The Zod object schema type (`z.AnyZodObject`) if using default validation. Leave `undefined` if using `validator`.
+ * @template TResult - The expected type of the validated environment object.
+ * @param options - The options accepted by `createEnv`, plus an optional `debounceMs`.
+ * @param onChange - Optional: Registered as a `"change"` listener.
+ * @returns {EnvWatcher<TResult>} The watcher, holding the current environment in `env`.
+ * @throws {EnvValidationError} If the initial load fails (see `createEnv`).
+ * @throws {Error} If options are invalid (e.g., both `schema` and `validator` provided, or neither, or `fileSystem` is set).
+ */
+export function watchEnv<
+  TSchema extends z.AnyZodObject | undefined,
+  TResult = TSchema extends z.AnyZodObject ? z.infer<TSchema> : unknown,
+>(
+  options: WatchEnvOptions<TSchema, TResult>,
+  onChange?: EnvChangeListener<TResult>
+): EnvWatcher<TResult> {
+  const { debounceMs = 100, ...createEnvOptions } = options;
+  if (options.fileSystem) {
+    throw new Error(
+      "watchEnv watches .env files on disk and does not support the 'fileSystem' option."
+    );
+  }
+  const initial = createEnv(createEnvOptions);
+
+  const watcher = new EnvFileWatcher<TResult>(
+    createEnvOptions,
+    debounceMs,
+    initial,
+    _resolveDotEnvPaths(options.dotEnvPath, _runtimeEnv(options).NODE_ENV)
+  );
+  if (onChange) {
+    watcher.on("change", onChange);
+  }
+  return watcher;
+}
+
+// --- Live Secrets ---
+
+/**
+ * Re-runs `createEnvAsync` on an interval, keeping the last valid environment.
+ * Closing aborts the refresh in progress; the `signal` passed at creation closes it too.
+ * @internal
+ */
+class LiveEnvRefresher<TResult>
+  extends EnvReloader<TResult>
+  implements LiveEnv<TResult>
+{
+  private readonly controller = new AbortController();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private pending: Promise<void> | undefined;
+  private closed = false;
+  private readonly onAbort = () => this.close();
+
+  constructor(
+    private readonly options: CreateEnvAsyncOptions<
+      z.AnyZodObject | undefined,
+      TResult
+    >,
+    private readonly refreshIntervalMs: number,
+    initial: TResult,
+    private readonly signal: AbortSignal | undefined
+  ) {
+    super(initial);
+    if (signal?.aborted) {
+      this.close();
+      return;
+    }
+    signal?.addEventListener("abort", this.onAbort, { once: true });
+    this.schedule();
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.controller.abort();
+    this.signal?.removeEventListener("abort", this.onAbort);
+  }
+
+  refresh(): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+    clearTimeout(this.timer);
+    // Calls made while a refresh is running share it
+    this.pending ??= this.run().finally(() => {
+      this.pending = undefined;
+      this.schedule();
+    });
+    return this.pending;
+  }
+
+  private schedule(): void {
+    if (this.closed) {
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.refresh(), this.refreshIntervalMs);
+    // Refreshing alone should not keep the process running
+    this.timer.unref();
+  }
+
+  private async run(): Promise<void> {
+    let next: TResult;
+    try {
+      next = await createEnvAsync({
+        ...this.options,
+        signal: this.controller.signal,
+      });
+    } catch (error) {
+      // An aborted refresh after close() is not a failure
+      if (!this.closed) {
+        this.fail(error);
+      }
+      return;
+    }
+    if (!this.closed) {
+      this.update(next);
+    }
+  }
+}
+
+/**
+ * Loads the environment like `createEnvAsync`, then refreshes it on an interval,
+ * so that rotated secrets are picked up without a restart.
+ *
+ * Each refresh runs the whole `createEnvAsync` pipeline again (`.env` files, secrets sources,
+ * secret references, `process.env`) and validates the result. If it is valid and differs from
+ * the previous one, a `"change"` event is emitted with the new environment object and the
+ * changed keys with their previous and current values. If it fails, an `"error"` event is
+ * emitted and the last valid environment is kept. With the default `secretsFailurePolicy`
+ * (`"warn"`), a failing source does not fail the refresh; its keys fall back to the other sources.
+ *
+ * The initial load rejects exactly like `createEnvAsync`. Call `close()` (or abort `signal`)
+ * to stop refreshing.
+ *
+ * @example
+ * ```js
+ * const live = await createEnvAsyncLive(
+ *   { schema, secretsSources: [getSecretsFromVault], refreshIntervalMs: 5 * 60_000 },
+ *   (env, changes) => {
+ *     if (changes.some((change) => change.key === "DB_PASSWORD")) pool.reconnect(env);
+ *   }
+ * );
+ * live.on("error", (error) => console.error(error.message));
+ * live.env.DB_PASSWORD; // Always the latest valid value
+ * ```
+ *
+ * @template TSchema - The Zod object schema type (`z.AnyZodObject`) if using default validation. Leave `undefined` if using `validator`.
+ * @template TResult - The expected type of the validated environment object.
+ * @param options - The options accepted by `createEnvAsync`, plus `refreshIntervalMs`.
+ * @param onChange - Optional: Registered as a `"change"` listener.
+ * @returns {Promise<LiveEnv<TResult>>} The handle, holding the current environment in `env`.
+ * @rejects {EnvValidationError} If the initial load fails (see `createEnvAsync`).
+ * @rejects {EnvAbortError} If the `signal` option is aborted during the initial load.
+ * @rejects {Error} If options are invalid, or `refreshIntervalMs` is not a positive number.
+ */
+export async function createEnvAsyncLive<
+  TSchema extends z.AnyZodObject | undefined,
+  TResult = TSchema extends z.AnyZodObject ? z.infer<TSchema> : unknown,
+>(
+  options: LiveEnvOptions<TSchema, TResult>,
+  onChange?: EnvChangeListener<TResult>
+): Promise<LiveEnv<TResult>> {
+  const { refreshIntervalMs, signal, ...createEnvAsyncOptions } = options;
+  if (!(refreshIntervalMs > 0)) {
+    throw new Error(
+      `refreshIntervalMs must be a positive number, received ${String(refreshIntervalMs)}.`
+    );
+  }
+  const initial = await createEnvAsync({ ...createEnvAsyncOptions, signal });
+
+  const live = new LiveEnvRefresher<TResult>(
+    createEnvAsyncOptions,
+    refreshIntervalMs,
+    initial,
+    signal
+  );
+  if (onChange) {
+    live.on("change", onChange);
+  }
+  return live;
+}
+
+// --- File System ---
+
+export type { AsyncEnvFileSystem, EnvFileSystem } from "./fs.js";
+
+// --- Secrets Cache ---
+
+export type { SecretsCacheOptions } from "./cache.js";
+
+// --- Built-in Secrets Sources ---
+
+export { vaultKvSource, type VaultKvSourceOptions } from "./vault.js";
+export {
+  httpJsonSource,
+  type HttpJsonSourceOptions,
+  type HttpJsonSourceAuth,
+} from "./http.js";
+
+// --- Schema Tooling ---
+
+export { sensitive } from "./sensitive.js";
+
+export {
+  generateEnvExample,
+  checkEnvExample,
+  type GenerateEnvExampleOptions,
+  type CheckEnvExampleOptions,
+  type EnvExampleCheckResult,
+  type EnvExampleDefaultMismatch,
+} from "./example.js";
+export {
+  generateEnvDocs,
+  type EnvDocsFormat,
+  type GenerateEnvDocsOptions,
+  type EnvVariableDoc,
+} from "./docs.js";
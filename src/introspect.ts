@@ -0,0 +1,153 @@
+// File: src/introspect.ts
+
+import { z } from "zod";
+import { _isSensitiveType } from "./sensitive.js";
+
+// --- Type Definitions ---
+
+/** What schema-env can tell about one variable declared in a Zod object schema. */
+export interface EnvVariableInfo {
+  /** The variable name (the key in the schema). */
+  name: string;
+  /** The underlying value type, e.g. `string`, `number`, `boolean`, `enum`. */
+  type: string;
+  /** Text passed to `.describe()`, if any. */
+  description?: string;
+  /** `true` if the variable must be supplied (it is neither optional nor defaulted). */
+  required: boolean;
+  /** `true` if the schema declares the variable with `.optional()` (or `.nullish()`). */
+  optional: boolean;
+  /** `true` if the schema declares a `.default()`. */
+  hasDefault: boolean;
+  /** The default value, when `hasDefault` is `true`. */
+  defaultValue?: unknown;
+  /** Allowed values for enums and literals. */
+  allowedValues?: string[];
+  /** `true` if the type (or one of its wrappers) was marked with `sensitive()`. */
+  sensitive: boolean;
+}
+
+const Kind = z.ZodFirstPartyTypeKind;
+
+// --- Internal Helper Functions ---
+
+/**
+ * Describes a single (possibly wrapped) Zod type.
+ * Unwraps optional/nullable/default/effects/branded/catch/pipeline/readonly wrappers,
+ * collecting the description, optionality, default and sensitivity along the way.
+ * @internal
+ */
+function _describeZodType(name: string, schema: z.ZodTypeAny): EnvVariableInfo {
+  let current: z.ZodTypeAny = schema;
+  let description: string | undefined;
+  let optional = false;
+  let hasDefault = false;
+  let defaultValue: unknown;
+  let sensitive = false;
+
+  for (;;) {
+    // The outermost description wins (e.g. `z.string().describe("a").optional().describe("b")` => "b")
+    description ??= current.description;
+    sensitive = sensitive || _isSensitiveType(current);
+    const def = current._def as z.ZodTypeDef & {
+      typeName: z.ZodFirstPartyTypeKind;
+    } & Record<string, unknown>;
+
+    if (
+      def.typeName === Kind.ZodOptional ||
+      def.typeName === Kind.ZodNullable
+    ) {
+      optional = optional || def.typeName === Kind.ZodOptional;
+      current = def.innerType as z.ZodTypeAny;
+    } else if (def.typeName === Kind.ZodDefault) {
+      if (!hasDefault) {
+        hasDefault = true;
+        defaultValue = (def.defaultValue as () => unknown)();
+      }
+      current = def.innerType as z.ZodTypeAny;
+    } else if (
+      def.typeName === Kind.ZodCatch ||
+      def.typeName === Kind.ZodReadonly
+    ) {
+      current = def.innerType as z.ZodTypeAny;
+    } else if (def.typeName === Kind.ZodEffects) {
+      current = def.schema as z.ZodTypeAny;
+    } else if (def.typeName === Kind.ZodBranded) {
+      current = def.type as z.ZodTypeAny;
+    } else if (def.typeName === Kind.ZodPipeline) {
+      current = def.in as z.ZodTypeAny;
+    } else if (def.typeName === Kind.ZodLazy) {
+      current = (def.getter as () => z.ZodTypeAny)();
+    } else {
+      break;
+    }
+  }
+
+  const { type, allowedValues } = _describeBaseType(current);
+
+  return {
+    name,
+    type,
+    ...(description !== undefined ? { description } : {}),
+    required: !optional && !hasDefault,
+    optional,
+    hasDefault,
+    ...(hasDefault ? { defaultValue } : {}),
+    ...(allowedValues ? { allowedValues } : {}),
+    sensitive,
+  };
+}
+
+/**
+ * Names an unwrapped Zod type and lists its allowed values, if it has a fixed set.
+ * @internal
+ */
+function _describeBaseType(schema: z.ZodTypeAny): {
+  type: string;
+  allowedValues?: string[];
+} {
+  if (schema instanceof z.ZodEnum) {
+    return { type: "enum", allowedValues: [...schema.options] as string[] };
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.entries(schema.enum as Record<string, unknown>)
+      // Numeric TypeScript enums map values back to names; skip those reverse entries
+      .filter(([key]) => !/^\d+$/.test(key))
+      .map(([, value]) => String(value));
+    return { type: "enum", allowedValues: values };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { type: "literal", allowedValues: [String(schema.value)] };
+  }
+  if (schema instanceof z.ZodUnion) {
+    const options = (schema.options as z.ZodTypeAny[]).map(_describeBaseType);
+    if (options.every((option) => option.type === "literal")) {
+      return {
+        type: "enum",
+        allowedValues: options.flatMap((option) => option.allowedValues ?? []),
+      };
+    }
+    return {
+      type: [...new Set(options.map((option) => option.type))].join(" | "),
+    };
+  }
+
+  const typeName = (schema._def as { typeName?: string }).typeName;
+  // e.g. "ZodString" => "string", "ZodBigInt" => "bigint"
+  return {
+    type: typeName ? typeName.replace(/^Zod/, "").toLowerCase() : "unknown",
+  };
+}
+
+// --- Schema Description ---
+
+/**
+ * Describes every variable declared in a Zod object schema, in declaration order.
+ * Used by the `.env.example` generator and the documentation exporters.
+ * @internal
+ */
+export function _describeEnvSchema(schema: z.AnyZodObject): EnvVariableInfo[] {
+  return Object.entries(schema.shape as z.ZodRawShape).map(([name, type]) =>
+    _describeZodType(name, type)
+  );
+}
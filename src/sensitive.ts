@@ -0,0 +1,153 @@
+// File: src/sensitive.ts
+
+import { inspect, type InspectOptions } from "node:util";
+import { z } from "zod";
+
+/** Placeholder shown instead of a sensitive value. */
+export const REDACTED_VALUE = "[REDACTED]";
+
+/**
+ * Marks a Zod type definition as sensitive. Zod copies `_def` into the new instance
+ * returned by chained methods (`.describe()`, `.min()`, ...), so the mark survives them.
+ */
+const SENSITIVE_MARK = Symbol("schema-env.sensitive");
+
+// --- Public API ---
+
+/**
+ * Marks a Zod type as holding a sensitive value (password, token, connection string, ...).
+ *
+ * The value of a sensitive key is redacted when the environment object returned by
+ * `createEnv`/`createEnvAsync` is logged, inspected or serialized, and is never echoed
+ * in validation error messages. Equivalent to listing the key in the `sensitive` option.
+ * The mark is kept by methods chained after it, e.g. `sensitive(z.string()).min(32)`.
+ *
+ * @example
+ * ```js
+ * const schema = z.object({
+ *   DATABASE_URL: sensitive(z.string().url()),
+ *   API_KEY: sensitive(z.string()).describe("Payment API key").optional(),
+ * });
+ * ```
+ *
+ * @param schema - The Zod type to mark. It is returned as the same instance.
+ * @returns The same Zod type.
+ */
+export function sensitive<T extends z.ZodTypeAny>(schema: T): T {
+  (schema._def as Record<symbol, unknown>)[SENSITIVE_MARK] = true;
+  return schema;
+}
+
+// --- Internal Helper Functions ---
+
+/**
+ * Returns `true` if the given Zod type (not its wrappers) was marked with `sensitive()`.
+ * @internal
+ */
+export function _isSensitiveType(schema: z.ZodTypeAny): boolean {
+  return (schema._def as Record<symbol, unknown>)[SENSITIVE_MARK] === true;
+}
+
+/**
+ * Returns `true` if the variable, or a group it is nested in, is sensitive.
+ * With `nestingDelimiter: "__"`, `DB__PASS` is sensitive if `DB__PASS` or `DB` is listed.
+ * @internal
+ */
+export function _isSensitiveName(
+  name: string,
+  sensitiveKeys: ReadonlySet<string>,
+  nestingDelimiter: string | undefined
+): boolean {
+  if (sensitiveKeys.has(name)) {
+    return true;
+  }
+  if (!nestingDelimiter) {
+    return false;
+  }
+  const segments = name.split(nestingDelimiter);
+  return segments.some((_segment, index) =>
+    sensitiveKeys.has(segments.slice(0, index + 1).join(nestingDelimiter))
+  );
+}
+
+/**
+ * Returns a copy of the environment with sensitive values replaced. With a `nestingDelimiter`,
+ * nested groups are copied too, and their values are matched by delimited name (`DB__PASS`).
+ * @internal
+ */
+function _redactedCopy(
+  env: Record<string, unknown>,
+  sensitiveKeys: ReadonlySet<string>,
+  nestingDelimiter: string | undefined,
+  path = ""
+): Record<string, unknown> {
+  const copy: Record<string, unknown> = { ...env };
+  for (const [key, value] of Object.entries(copy)) {
+    const name = `${path}${key}`;
+    if (sensitiveKeys.has(name) && value !== undefined) {
+      copy[key] = REDACTED_VALUE;
+    } else if (
+      nestingDelimiter &&
+      typeof value === "object" &&
+      value !== null &&
+      !Array.isArray(value)
+    ) {
+      copy[key] = _redactedCopy(
+        value as Record<string, unknown>,
+        sensitiveKeys,
+        nestingDelimiter,
+        `${name}${nestingDelimiter}`
+      );
+    }
+  }
+  return copy;
+}
+
+/**
+ * Makes `JSON.stringify`, `toString` and `util.inspect` (and so `console.log`) redact the
+ * sensitive keys of an environment object. The values stay readable through property access.
+ * The added methods are non-enumerable, so spreading or iterating the object is unaffected.
+ * @internal
+ */
+export function _redactEnv<T>(
+  env: T,
+  sensitiveKeys: ReadonlySet<string>,
+  nestingDelimiter?: string
+): T {
+  if (typeof env !== "object" || env === null || sensitiveKeys.size === 0) {
+    return env;
+  }
+  const target = env as Record<string, unknown>;
+  const redacted = () => _redactedCopy(target, sensitiveKeys, nestingDelimiter);
+
+  Object.defineProperties(target, {
+    toJSON: {
+      value: redacted,
+      configurable: true,
+      writable: true,
+    },
+    toString: {
+      value: () => JSON.stringify(redacted()),
+      configurable: true,
+      writable: true,
+    },
+    [inspect.custom]: {
+      value: (_depth: number, options: InspectOptions) =>
+        inspect(redacted(), options),
+      configurable: true,
+      writable: true,
+    },
+  });
+  return env;
+}
+
+/**
+ * Replaces every occurrence of a sensitive value in a message.
+ * @internal
+ */
+export function _redactMessage(message: string, value: unknown): string {
+  if (typeof value !== "string" || value === "") {
+    return message;
+  }
+  return message.split(value).join(REDACTED_VALUE);
+}
@@ -0,0 +1,166 @@
+// File: src/vault.ts
+
+import type { SecretSourceContext, SecretSourceFunction } from "./index.js";
+
+// --- Type Definitions ---
+
+/** Options for `vaultKvSource`. */
+export interface VaultKvSourceOptions {
+  /**
+   * Optional: Vault address, e.g. `https://vault.example.com:8200`.
+   * Defaults to `VAULT_ADDR` from the runtime environment or the `.env` files.
+   */
+  address?: string;
+  /**
+   * Optional: Vault token. Defaults to `VAULT_TOKEN` from the runtime environment or the `.env` files.
+   */
+  token?: string;
+  /** Path of the secret inside the mount, e.g. `myapp/production`. */
+  path: string;
+  /** Optional: Mount path of the KV secrets engine. Defaults to `"secret"`. */
+  mount?: string;
+  /** Optional: Version of the KV secrets engine. Defaults to `2`. */
+  version?: 1 | 2;
+  /**
+   * Optional: Vault Enterprise namespace, sent as `X-Vault-Namespace`.
+   * Defaults to `VAULT_NAMESPACE` from the runtime environment or the `.env` files, if set.
+   */
+  namespace?: string;
+  /**
+   * Optional: Maps secret fields to environment variable names, e.g.
+   * `{ password: "DB_PASSWORD" }`. Only the listed fields are returned.
+   * Defaults to returning every field under its own name.
+   */
+  fields?: Record<string, string>;
+}
+
+/** The parts of a Vault KV read response used here. */
+interface VaultKvResponse {
+  data?: Record<string, unknown> & { data?: Record<string, unknown> };
+  errors?: string[];
+}
+
+// --- Internal Helper Functions ---
+
+/**
+ * Reads a setting from the options, then the runtime environment, then the `.env` files.
+ * @internal
+ */
+function _setting(
+  value: string | undefined,
+  name: string,
+  context: SecretSourceContext
+): string | undefined {
+  return value ?? context.runtimeEnv[name] ?? context.dotenv[name];
+}
+
+/**
+ * Builds the URL of a KV read: `/v1/<mount>/<path>` (v1) or `/v1/<mount>/data/<path>` (v2).
+ * @internal
+ */
+function _vaultKvUrl(
+  address: string,
+  mount: string,
+  path: string,
+  version: 1 | 2
+): string {
+  const trim = (segment: string) => segment.replace(/^\/+|\/+$/g, "");
+  const segments = [
+    trim(mount),
+    ...(version === 2 ? ["data"] : []),
+    trim(path),
+  ];
+  return `${address.replace(/\/+$/, "")}/v1/${segments.join("/")}`;
+}
+
+/**
+ * Converts secret fields to environment values. Strings are kept, other values are
+ * stringified (objects as JSON), and `null` fields are skipped.
+ * @internal
+ */
+function _vaultFieldsToEnv(
+  data: Record<string, unknown>,
+  fields: Record<string, string> | undefined
+): Record<string, string | undefined> {
+  const entries = fields
+    ? Object.entries(fields).map(([field, key]) => [key, data[field]] as const)
+    : Object.entries(data);
+
+  const values: Record<string, string | undefined> = {};
+  for (const [key, value] of entries) {
+    if (value === null || value === undefined) {
+      continue;
+    }
+    values[key] =
+      typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+  return values;
+}
+
+// --- Public API ---
+
+/**
+ * Creates a secrets source that reads one secret from a HashiCorp Vault KV secrets engine
+ * (version 1 or 2) using the built-in `fetch`.
+ *
+ * The address, token and namespace default to `VAULT_ADDR`, `VAULT_TOKEN` and `VAULT_NAMESPACE`,
+ * looked up in the runtime environment (`process.env` unless the `runtimeEnv` option is set),
+ * then in the `.env` files. The request is cancelled through the
+ * source's `signal`, so `secretsTimeoutMs` and the `signal` option of `createEnvAsync` apply.
+ *
+ * @example
+ * ```js
+ * const env = await createEnvAsync({
+ *   schema,
+ *   secretsSources: [
+ *     vaultKvSource({ path: "myapp/production", fields: { password: "DB_PASSWORD" } }),
+ *   ],
+ * });
+ * ```
+ *
+ * @param options - The secret to read and how to reach Vault.
+ * @returns {SecretSourceFunction} A source for the `secretsSources` option. It rejects if the
+ * address or token is missing, or if Vault does not answer with the secret.
+ */
+export function vaultKvSource(
+  options: VaultKvSourceOptions
+): SecretSourceFunction {
+  const { path, mount = "secret", version = 2, fields } = options;
+
+  return async function vault(context) {
+    const address = _setting(options.address, "VAULT_ADDR", context);
+    const token = _setting(options.token, "VAULT_TOKEN", context);
+    const namespace = _setting(options.namespace, "VAULT_NAMESPACE", context);
+    if (!address) {
+      throw new Error(
+        "Vault address is not set (pass address or set VAULT_ADDR)."
+      );
+    }
+    if (!token) {
+      throw new Error(
+        "Vault token is not set (pass token or set VAULT_TOKEN)."
+      );
+    }
+
+    const response = await fetch(_vaultKvUrl(address, mount, path, version), {
+      headers: {
+        "X-Vault-Token": token,
+        ...(namespace ? { "X-Vault-Namespace": namespace } : {}),
+      },
+      signal: context.signal,
+    });
+    const body = (await response.json().catch(() => ({}))) as VaultKvResponse;
+    if (!response.ok) {
+      const details = body.errors?.length ? `: ${body.errors.join("; ")}` : "";
+      throw new Error(
+        `Vault responded with ${response.status} for ${mount}/${path}${details}`
+      );
+    }
+
+    const data = version === 2 ? body.data?.data : body.data;
+    if (!data || typeof data !== "object") {
+      throw new Error(`Vault returned no data for ${mount}/${path}`);
+    }
+    return _vaultFieldsToEnv(data, fields);
+  };
+}
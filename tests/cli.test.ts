@@ -0,0 +1,269 @@
+// File: tests/cli.test.ts
+
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from "@jest/globals";
+import { z } from "zod";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { runCli, CliIo, CLI_EXIT_CODES } from "../src/cli.js";
+import type { ValidatorAdapter } from "../src/index.js";
+
+// --- Test Schema ---
+const cliSchema = z.object({
+  NODE_ENV: z.enum(["development", "production"]).default("development"),
+  PORT: z.coerce.number().int().positive(),
+  CLI_API_URL: z.string().url(),
+});
+
+// --- Environment Setup Helper ---
+let tempDir: string;
+let originalProcessEnv: NodeJS.ProcessEnv;
+let stdout: string;
+let stderr: string;
+const importModule = jest.fn<CliIo["importModule"]>();
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "schema-env-cli-"));
+  originalProcessEnv = { ...process.env };
+  delete process.env.NODE_ENV;
+  delete process.env.PORT;
+  stdout = "";
+  stderr = "";
+  importModule.mockReset();
+  importModule.mockResolvedValue({ envSchema: cliSchema });
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+  process.env = originalProcessEnv;
+});
+
+// --- Helpers ---
+const writeEnvFile = (name: string, content: string) => {
+  fs.writeFileSync(path.join(tempDir, name), content);
+};
+
+const run = (argv: string[]) =>
+  runCli(argv, {
+    cwd: tempDir,
+    stdout: (text) => {
+      stdout += text;
+    },
+    stderr: (text) => {
+      stderr += text;
+    },
+    importModule,
+  });
+
+describe("schema-env check", () => {
+  it("should exit 0 when the env files satisfy the schema", async () => {
+    writeEnvFile(".env", "PORT=3000\nCLI_API_URL=https://example.com\n");
+    const exitCode = await run(["check", "--schema", "./env.js"]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.success);
+    expect(stdout).toContain("✅ Environment is valid.");
+    expect(importModule).toHaveBeenCalledWith(path.join(tempDir, "env.js"));
+  });
+
+  it("should exit 1 with the formatted issues when validation fails", async () => {
+    writeEnvFile(".env", "PORT=abc\n");
+    const exitCode = await run(["check", "--schema", "./env.js"]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.failure);
+    expect(stderr).toContain("❌ Invalid environment variables:");
+    expect(stderr).toContain("- PORT: Expected number, received nan");
+    expect(stderr).toContain("- CLI_API_URL: Required");
+  });
+
+  it("should load several --env-file paths in order", async () => {
+    writeEnvFile("base.env", "PORT=1\nCLI_API_URL=not-a-url\n");
+    writeEnvFile("deploy.env", "CLI_API_URL=https://deploy.example.com\n");
+    const exitCode = await run([
+      "check",
+      "--schema",
+      "./env.js",
+      "--env-file",
+      "base.env",
+      "--env-file",
+      "deploy.env",
+    ]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.success);
+  });
+
+  it("should load the --node-env file from the working directory", async () => {
+    writeEnvFile(".env", "PORT=3000\n");
+    writeEnvFile(".env.production", "CLI_API_URL=https://example.com\n");
+    const exitCode = await run([
+      "check",
+      "--schema",
+      "./env.js",
+      "--node-env",
+      "production",
+    ]);
+    expect(stderr).toBe("");
+    expect(exitCode).toBe(CLI_EXIT_CODES.success);
+  });
+
+  it("should validate against the given --node-env without touching process.env", async () => {
+    writeEnvFile(".env", "PORT=3000\nCLI_API_URL=https://example.com\n");
+    const exitCode = await run([
+      "check",
+      "--schema",
+      "./env.js",
+      "--node-env",
+      "staging",
+    ]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.failure);
+    expect(stderr).toContain("- NODE_ENV: Invalid enum value");
+    expect(process.env.NODE_ENV).toBeUndefined();
+  });
+
+  it("should use a named export or a ValidatorAdapter export", async () => {
+    const validator: ValidatorAdapter<unknown> = {
+      validate: () => ({
+        success: false,
+        error: { issues: [{ path: ["CUSTOM"], message: "Custom failure" }] },
+      }),
+    };
+    importModule.mockResolvedValue({ envSchema: cliSchema, validator });
+    const exitCode = await run([
+      "check",
+      "--schema",
+      "./env.js",
+      "--export",
+      "validator",
+    ]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.failure);
+    expect(stderr).toContain("- CUSTOM: Custom failure");
+  });
+
+  it("should exit 2 when the schema module has no usable export", async () => {
+    importModule.mockResolvedValue({ notASchema: 42 });
+    const exitCode = await run(["check", "--schema", "./env.js"]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.usage);
+    expect(stderr).toContain("No Zod object schema or ValidatorAdapter export");
+  });
+
+  it("should exit 2 when the schema module cannot be imported", async () => {
+    importModule.mockRejectedValue(new Error("Cannot find module"));
+    const exitCode = await run(["check", "--schema", "./missing.js"]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.usage);
+    expect(stderr).toContain("Failed to load schema module");
+    expect(stderr).toContain("Cannot find module");
+  });
+
+  it("should exit 2 on missing --schema, unknown options and unknown commands", async () => {
+    expect(await run(["check"])).toBe(CLI_EXIT_CODES.usage);
+    expect(stderr).toContain("Missing required option --schema.");
+    expect(await run(["check", "--schema", "x", "--bogus"])).toBe(
+      CLI_EXIT_CODES.usage
+    );
+    expect(await run(["deploy"])).toBe(CLI_EXIT_CODES.usage);
+    expect(stderr).toContain("Unknown command 'deploy'.");
+  });
+
+  it("should print usage for --help", async () => {
+    expect(await run(["--help"])).toBe(CLI_EXIT_CODES.success);
+    expect(stdout).toContain("Usage: schema-env <command> [options]");
+  });
+});
+
+describe("schema-env example", () => {
+  it("should write .env.example from the schema", async () => {
+    const exitCode = await run(["example", "--schema", "./env.js"]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.success);
+    const contents = fs.readFileSync(
+      path.join(tempDir, ".env.example"),
+      "utf8"
+    );
+    expect(contents).toContain("# (type: number, required)\nPORT=\n");
+    expect(stdout).toContain("✅ Wrote");
+  });
+
+  it("should print to stdout with --out -", async () => {
+    const exitCode = await run([
+      "example",
+      "--schema",
+      "./env.js",
+      "--out",
+      "-",
+    ]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.success);
+    expect(stdout).toContain("NODE_ENV=development");
+    expect(fs.existsSync(path.join(tempDir, ".env.example"))).toBe(false);
+  });
+
+  it("should exit 2 for a ValidatorAdapter export", async () => {
+    importModule.mockResolvedValue({
+      default: { validate: () => ({ success: true, data: {} }) },
+    });
+    const exitCode = await run(["example", "--schema", "./env.js"]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.usage);
+    expect(stderr).toContain("requires a Zod object schema");
+  });
+
+  it("should exit 0 with --check when the example matches", async () => {
+    await run(["example", "--schema", "./env.js"]);
+    const exitCode = await run(["example", "--schema", "./env.js", "--check"]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.success);
+    expect(stdout).toContain("matches the schema");
+  });
+
+  it("should exit 1 with --check and list the drift", async () => {
+    writeEnvFile(".env.example", "PORT=\nNODE_ENV=production\nOLD_VAR=1\n");
+    const exitCode = await run(["example", "--schema", "./env.js", "--check"]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.failure);
+    expect(stderr).toContain("is out of sync with the schema");
+    expect(stderr).toContain("- CLI_API_URL: Missing from the example file");
+    expect(stderr).toContain("- OLD_VAR: Not declared in the schema");
+    expect(stderr).toContain(
+      '- NODE_ENV: Schema default "development" differs from example value "production"'
+    );
+  });
+});
+
+describe("schema-env docs", () => {
+  it("should print a Markdown reference to stdout", async () => {
+    const exitCode = await run(["docs", "--schema", "./env.js"]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.success);
+    expect(stdout).toContain("| `CLI_API_URL` | string | Yes |");
+  });
+
+  it("should write JSON to --out and flag --sensitive keys", async () => {
+    const exitCode = await run([
+      "docs",
+      "--schema",
+      "./env.js",
+      "--format",
+      "json",
+      "--sensitive",
+      "CLI_API_URL",
+      "--out",
+      "env.json",
+    ]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.success);
+    const { variables } = JSON.parse(
+      fs.readFileSync(path.join(tempDir, "env.json"), "utf8")
+    ) as { variables: { name: string; sensitive: boolean }[] };
+    expect(variables.find((v) => v.name === "CLI_API_URL")?.sensitive).toBe(
+      true
+    );
+  });
+
+  it("should exit 2 for an unknown --format", async () => {
+    const exitCode = await run([
+      "docs",
+      "--schema",
+      "./env.js",
+      "--format",
+      "html",
+    ]);
+    expect(exitCode).toBe(CLI_EXIT_CODES.usage);
+    expect(stderr).toContain("Invalid --format 'html'");
+  });
+});
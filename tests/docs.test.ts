@@ -0,0 +1,121 @@
+// File: tests/docs.test.ts
+
+import { describe, it, expect } from "@jest/globals";
+import { z } from "zod";
+import { generateEnvDocs, sensitive } from "../src/index.js";
+
+// --- Test Schema ---
+const docsSchema = z.object({
+  NODE_ENV: z
+    .enum(["development", "production"])
+    .default("development")
+    .describe("Runtime environment"),
+  PORT: z.coerce.number().default(3000),
+  API_KEY: z.string().default("dev-key").describe("Key for the | API"),
+  DATABASE_URL: z.string().url().describe("Primary database\nRead-write"),
+  DEBUG: z.coerce.boolean().optional(),
+});
+
+describe("generateEnvDocs", () => {
+  it("should render a Markdown table by default", () => {
+    expect(generateEnvDocs(docsSchema, { sensitive: ["API_KEY"] })).toBe(
+      [
+        "| Name | Type | Required | Default | Description | Allowed values | Sensitive |",
+        "| --- | --- | --- | --- | --- | --- | --- |",
+        "| `NODE_ENV` | enum | No | `development` | Runtime environment | `development`, `production` | No |",
+        "| `PORT` | number | No | `3000` | | | No |",
+        "| `API_KEY` | string | No | (hidden) | Key for the \\| API | | Yes |",
+        "| `DATABASE_URL` | string | Yes | | Primary database<br>Read-write | | No |",
+        "| `DEBUG` | boolean | No | | | | No |",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should write a title heading above the table", () => {
+    expect(
+      generateEnvDocs(z.object({ A: z.string() }), { title: "Service env" })
+    ).toMatch(/^# Service env\n\n\| Name \|/);
+  });
+
+  it("should render JSON with one entry per variable", () => {
+    const output = generateEnvDocs(docsSchema, {
+      format: "json",
+      sensitive: ["API_KEY"],
+    });
+    expect(output.endsWith("}\n")).toBe(true);
+    expect(JSON.parse(output)).toEqual({
+      variables: [
+        {
+          name: "NODE_ENV",
+          type: "enum",
+          required: false,
+          default: "development",
+          description: "Runtime environment",
+          allowedValues: ["development", "production"],
+          sensitive: false,
+        },
+        {
+          name: "PORT",
+          type: "number",
+          required: false,
+          default: "3000",
+          sensitive: false,
+        },
+        {
+          name: "API_KEY",
+          type: "string",
+          required: false,
+          default: "(hidden)",
+          description: "Key for the | API",
+          sensitive: true,
+        },
+        {
+          name: "DATABASE_URL",
+          type: "string",
+          required: true,
+          description: "Primary database\nRead-write",
+          sensitive: false,
+        },
+        { name: "DEBUG", type: "boolean", required: false, sensitive: false },
+      ],
+    });
+  });
+
+  it("should flag keys marked with sensitive() in the schema", () => {
+    const schema = z.object({
+      TOKEN: sensitive(z.string().default("dev-token")),
+    });
+    expect(JSON.parse(generateEnvDocs(schema, { format: "json" }))).toEqual({
+      variables: [
+        {
+          name: "TOKEN",
+          type: "string",
+          required: false,
+          default: "(hidden)",
+          sensitive: true,
+        },
+      ],
+    });
+  });
+
+  it("should flag sensitive() keys with methods chained after the mark", () => {
+    const schema = z.object({
+      API_KEY: sensitive(z.string()).describe("API key"),
+      PASSWORD: sensitive(z.string()).min(3).default("dev-password"),
+    });
+    const docs = JSON.parse(generateEnvDocs(schema, { format: "json" }));
+    expect(docs.variables).toEqual([
+      expect.objectContaining({
+        name: "API_KEY",
+        description: "API key",
+        sensitive: true,
+      }),
+      expect.objectContaining({
+        name: "PASSWORD",
+        default: "(hidden)",
+        sensitive: true,
+      }),
+    ]);
+  });
+});
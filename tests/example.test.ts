@@ -0,0 +1,196 @@
+// File: tests/example.test.ts
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { z } from "zod";
+import dotenv from "dotenv";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  generateEnvExample,
+  checkEnvExample,
+  sensitive,
+} from "../src/index.js";
+
+// --- Test Schema ---
+enum Region {
+  Eu = "eu-west-1",
+  Us = "us-east-1",
+}
+
+const exampleSchema = z.object({
+  NODE_ENV: z
+    .enum(["development", "production", "test"])
+    .default("development")
+    .describe("Runtime environment"),
+  PORT: z.coerce.number().int().positive().default(8080),
+  API_URL: z.string().url().describe("Base URL of the API\nMust be HTTPS"),
+  OPTIONAL_VAR: z.string().optional(),
+  REGION: z.nativeEnum(Region).default(Region.Eu),
+  MODE: z.union([z.literal("a"), z.literal("b")]).optional(),
+  GREETING: z.string().default("Hello # world"),
+  FLAGS: z
+    .string()
+    .transform((value) => value.split(","))
+    .describe("Comma-separated flags"),
+});
+
+describe("generateEnvExample", () => {
+  it("should list every key with its description, type, requirement, default and choices", () => {
+    expect(generateEnvExample(exampleSchema, { header: false })).toBe(
+      [
+        "# Runtime environment",
+        "# (type: enum, optional, default: development, one of: development | production | test)",
+        "NODE_ENV=development",
+        "",
+        "# (type: number, optional, default: 8080)",
+        "PORT=8080",
+        "",
+        "# Base URL of the API",
+        "# Must be HTTPS",
+        "# (type: string, required)",
+        "API_URL=",
+        "",
+        "# (type: string, optional)",
+        "OPTIONAL_VAR=",
+        "",
+        "# (type: enum, optional, default: eu-west-1, one of: eu-west-1 | us-east-1)",
+        "REGION=eu-west-1",
+        "",
+        "# (type: enum, optional, one of: a | b)",
+        "MODE=",
+        "",
+        '# (type: string, optional, default: "Hello # world")',
+        'GREETING="Hello # world"',
+        "",
+        "# Comma-separated flags",
+        "# (type: string, required)",
+        "FLAGS=",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should never write the default of a sensitive key", () => {
+    const schema = z.object({
+      TOKEN: sensitive(z.string().default("dev-token")),
+      PASSWORD: z.string().default("dev-password"),
+    });
+    const example = generateEnvExample(schema, {
+      header: false,
+      sensitive: ["PASSWORD"],
+    });
+    expect(example).toBe(
+      [
+        "# (type: string, optional, default: (hidden))",
+        "TOKEN=",
+        "",
+        "# (type: string, optional, default: (hidden))",
+        "PASSWORD=",
+        "",
+      ].join("\n")
+    );
+    expect(example).not.toMatch(/dev-token|dev-password/);
+  });
+
+  it("should write a header comment by default and accept a custom one", () => {
+    expect(generateEnvExample(exampleSchema)).toMatch(
+      /^# Generated by schema-env from the environment schema\.\n/
+    );
+    expect(
+      generateEnvExample(z.object({ A: z.string() }), {
+        header: "Line one\n\nLine two",
+      })
+    ).toBe("# Line one\n#\n# Line two\n\n# (type: string, required)\nA=\n");
+  });
+
+  it("should produce values that dotenv parses back to the defaults", () => {
+    const schema = z.object({
+      SPACES: z.string().default("  padded "),
+      DOUBLE_QUOTES: z.string().default('say "hi"'),
+      MULTILINE: z.string().default("line1\nline2"),
+      LIST: z.array(z.string()).default(["a", "b"]),
+    });
+    const parsed = dotenv.parse(generateEnvExample(schema));
+    expect(parsed).toEqual({
+      SPACES: "  padded ",
+      DOUBLE_QUOTES: 'say "hi"',
+      MULTILINE: "line1\nline2",
+      LIST: '["a","b"]',
+    });
+  });
+});
+
+describe("checkEnvExample", () => {
+  let tempDir: string;
+  let examplePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "schema-env-example-"));
+    examplePath = path.join(tempDir, ".env.example");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should report no drift for a freshly generated example", () => {
+    fs.writeFileSync(examplePath, generateEnvExample(exampleSchema));
+    expect(checkEnvExample(exampleSchema, { path: examplePath })).toEqual({
+      inSync: true,
+      missing: [],
+      extra: [],
+      defaultMismatches: [],
+    });
+  });
+
+  it("should report missing keys, extra keys and disagreeing defaults", () => {
+    fs.writeFileSync(
+      examplePath,
+      [
+        "NODE_ENV=production",
+        "PORT=8080",
+        "API_URL=https://example.com",
+        "REMOVED_VAR=old",
+        "GREETING='Hello # world'",
+      ].join("\n")
+    );
+    expect(checkEnvExample(exampleSchema, { path: examplePath })).toEqual({
+      inSync: false,
+      missing: ["OPTIONAL_VAR", "REGION", "MODE", "FLAGS"],
+      extra: ["REMOVED_VAR"],
+      defaultMismatches: [
+        {
+          name: "NODE_ENV",
+          schemaDefault: "development",
+          exampleValue: "production",
+        },
+      ],
+    });
+  });
+
+  it("should not compare the defaults of sensitive keys", () => {
+    const schema = z.object({
+      TOKEN: sensitive(z.string().default("dev-token")),
+      PASSWORD: z.string().default("dev-password"),
+    });
+    fs.writeFileSync(
+      examplePath,
+      generateEnvExample(schema, { sensitive: ["PASSWORD"] })
+    );
+    expect(
+      checkEnvExample(schema, { path: examplePath, sensitive: ["PASSWORD"] })
+    ).toEqual({
+      inSync: true,
+      missing: [],
+      extra: [],
+      defaultMismatches: [],
+    });
+  });
+
+  it("should throw if the example file cannot be read", () => {
+    expect(() => checkEnvExample(exampleSchema, { path: examplePath })).toThrow(
+      `❌ Failed to load example file from ${examplePath}`
+    );
+  });
+});
@@ -0,0 +1,129 @@
+// File: tests/http.test.ts
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from "@jest/globals";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { httpJsonSource } from "../src/http.js";
+import type { SecretSourceContext } from "../src/index.js";
+
+// --- Config Service Stub ---
+interface StubRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+let document: { etag?: string; body: string; status?: number };
+let server: http.Server;
+let baseUrl: string;
+let requests: StubRequest[];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    requests.push({ url: req.url ?? "", headers: req.headers });
+    if (document.etag) {
+      res.setHeader("ETag", document.etag);
+      if (req.headers["if-none-match"] === document.etag) {
+        res.statusCode = 304;
+        res.end();
+        return;
+      }
+    }
+    res.statusCode = document.status ?? 200;
+    res.setHeader("Content-Type", "application/json");
+    res.end(document.body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  document = {
+    etag: '"v1"',
+    body: JSON.stringify({
+      "myapp.PORT": 3000,
+      "myapp.DEBUG": false,
+      "myapp.LIMITS": { rps: 10 },
+      "myapp.UNSET": null,
+      "otherapp.PORT": 4000,
+    }),
+  };
+});
+
+const context = (): SecretSourceContext => ({
+  dotenv: {},
+  runtimeEnv: {},
+  schemaKeys: [],
+  missingKeys: [],
+  signal: new AbortController().signal,
+});
+
+describe("httpJsonSource", () => {
+  it("should fetch a JSON document and map its keys", async () => {
+    const source = httpJsonSource({
+      url: `${baseUrl}/config.json`,
+      stripPrefix: "myapp.",
+      addPrefix: "APP_",
+      headers: { "X-Client": "schema-env" },
+    });
+    await expect(source(context())).resolves.toEqual({
+      APP_PORT: "3000",
+      APP_DEBUG: "false",
+      APP_LIMITS: '{"rps":10}',
+    });
+    expect(requests[0].url).toBe("/config.json");
+    expect(requests[0].headers["x-client"]).toBe("schema-env");
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(source.name).toBe("http");
+  });
+
+  it("should send bearer and basic credentials", async () => {
+    await httpJsonSource({ url: baseUrl, auth: { bearer: "t0k3n" } })(
+      context()
+    );
+    await httpJsonSource({
+      url: baseUrl,
+      auth: { username: "user", password: "p@ss" },
+    })(context());
+    expect(requests[0].headers.authorization).toBe("Bearer t0k3n");
+    expect(requests[1].headers.authorization).toBe(
+      `Basic ${Buffer.from("user:p@ss").toString("base64")}`
+    );
+  });
+
+  it("should reuse the previous values when the ETag still matches", async () => {
+    const source = httpJsonSource({ url: baseUrl, stripPrefix: "myapp." });
+    const first = await source(context());
+    const second = await source(context());
+    expect(second).toEqual(first);
+    expect(requests[0].headers["if-none-match"]).toBeUndefined();
+    expect(requests[1].headers["if-none-match"]).toBe('"v1"');
+
+    document = { etag: '"v2"', body: JSON.stringify({ "myapp.PORT": 5000 }) };
+    await expect(source(context())).resolves.toEqual({ PORT: "5000" });
+    expect(requests[2].headers["if-none-match"]).toBe('"v1"');
+  });
+
+  it("should reject error statuses and documents that are not objects", async () => {
+    const source = httpJsonSource({ url: `${baseUrl}/config.json` });
+    document = { status: 503, body: "{}" };
+    await expect(source(context())).rejects.toThrow(
+      `HTTP 503 Service Unavailable from ${baseUrl}/config.json`
+    );
+    document = { body: "[1, 2]" };
+    await expect(source(context())).rejects.toThrow(
+      `Expected a JSON object from ${baseUrl}/config.json`
+    );
+  });
+});
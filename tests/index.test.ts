@@ -11,13 +11,30 @@ import {
 } from "@jest/globals";
 import { z } from "zod";
 import fs from "node:fs"; // <-- Import fs
+import os from "node:os";
+import path from "node:path";
+import { inspect } from "node:util";
 import dotenv from "dotenv"; // <-- Import dotenv
 import {
   createEnv,
   createEnvAsync,
   SecretSourceFunction,
+  SecretSourceContext,
   ValidatorAdapter,
   ValidationResult,
+  EnvValidationError,
+  getEnvProvenance,
+  explainEnv,
+  watchEnv,
+  sensitive,
+  SecretSourceTimeoutError,
+  EnvAbortError,
+  createFileSecretsSource,
+  fileSecretResolver,
+  SecretResolver,
+  SecretsCacheOptions,
+  createEnvAsyncLive,
+  EnvChangeListener,
 } from "../src/index.js"; // Keep .js extension
 import type {
   // DotenvConfigOptions, // No longer needed
@@ -130,6 +147,15 @@ const setupProcessEnv = (envVars: Record<string, string | undefined>) => {
   }
 };
 
+const captureError = (fn: () => unknown): unknown => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected function to throw");
+};
+
 // --- REWRITTEN mockDotenvFiles HELPER ---
 const mockDotenvFiles = (
   files: Record<
@@ -309,18 +335,46 @@ describe("createEnv (Synchronous Validation)", () => {
   it("should throw validation error if required variables are missing", () => {
     setupProcessEnv({ SECRET_KEY: "onlythesecretisprovided" });
     mockDotenvFiles({});
-    expect(() => {
+    const error = captureError(() =>
       createEnv({
         schema: testSchema,
         _internalDotenvExpand: mockedDotenvExpand,
-      });
-    }).toThrow("Environment validation failed. Check console output.");
-    expect(consoleErrorSpy).toHaveBeenCalledWith(
-      expect.stringContaining("❌ Invalid environment variables:")
-    );
-    expect(consoleErrorSpy).toHaveBeenCalledWith(
-      expect.stringContaining("- API_URL: Required")
-    );
+      })
+    ) as EnvValidationError;
+    expect(error).toBeInstanceOf(EnvValidationError);
+    expect(error.phase).toBe("validation");
+    expect(error.issues).toEqual([{ path: ["API_URL"], message: "Required" }]);
+    expect(error.message).toContain("❌ Invalid environment variables:");
+    expect(error.message).toContain("- API_URL: Required");
+    expect(error.formattedMessage).toBe(error.message);
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
+  });
+
+  it("should produce a JSON-serializable EnvValidationError", () => {
+    setupProcessEnv({ API_URL: "not-a-url", SECRET_KEY: "short" });
+    mockDotenvFiles({});
+    const error = captureError(() =>
+      createEnv({
+        schema: testSchema,
+        _internalDotenvExpand: mockedDotenvExpand,
+      })
+    ) as EnvValidationError;
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      name: "EnvValidationError",
+      phase: "validation",
+      message: error.formattedMessage,
+      issues: [
+        { path: ["API_URL"], message: "Invalid url" },
+        {
+          path: ["SECRET_KEY"],
+          message: "String must contain at least 10 character(s)",
+        },
+      ],
+      provenance: {
+        API_URL: { type: "process.env" },
+        SECRET_KEY: { type: "process.env" },
+      },
+    });
   });
 
   it("should not load any .env files if dotEnvPath is false", () => {
@@ -347,14 +401,18 @@ describe("createEnv (Synchronous Validation)", () => {
     const loadError = new Error("Permission denied");
     (loadError as NodeJS.ErrnoException).code = "EACCES";
     mockDotenvFiles({ "./.env": loadError });
-    expect(() => {
+    const error = captureError(() =>
       createEnv({
         schema: testSchema,
         _internalDotenvExpand: mockedDotenvExpand,
-      });
-    }).toThrow(
+      })
+    ) as EnvValidationError;
+    expect(error).toBeInstanceOf(EnvValidationError);
+    expect(error.phase).toBe("file-load");
+    expect(error.message).toBe(
       `❌ Failed to load environment file from ./.env: ${loadError.message}`
     );
+    expect(error.cause).toBe(loadError);
     expect(readFileSyncSpy).toHaveBeenCalledWith("./.env", expect.any(Object));
     expect(dotenvParseSpy).not.toHaveBeenCalled();
     expect(mockedDotenvExpand).not.toHaveBeenCalled();
@@ -1084,10 +1142,12 @@ describe("createEnvAsync (Asynchronous Validation)", () => {
         secretsSources: [async () => ({})],
         _internalDotenvExpand: mockedDotenvExpand,
       })
-    ).rejects.toThrow("Environment validation failed. Check console output.");
-    expect(consoleErrorSpy).toHaveBeenCalledWith(
-      expect.stringContaining("- SECRET_KEY: Required")
-    );
+    ).rejects.toMatchObject({
+      name: "EnvValidationError",
+      phase: "validation",
+      issues: [{ path: ["SECRET_KEY"], message: "Required" }],
+    });
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
   });
 
   it("should reject promise if a synchronous error occurs during setup (e.g., non-ENOENT .env load)", async () => {
@@ -1287,13 +1347,8 @@ describe("Validation Adapters (REQ-API-04)", () => {
           validator: customAdapterFailure,
           _internalDotenvExpand: mockedDotenvExpand,
         });
-      }).toThrow("Environment validation failed. Check console output.");
+      }).toThrow("- INPUT_VAR: Custom validation failed on INPUT_VAR: invalid");
       expect(mockCustomValidatorFailureImpl).toHaveBeenCalledTimes(1);
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        expect.stringContaining(
-          "- INPUT_VAR: Custom validation failed on INPUT_VAR: invalid"
-        )
-      );
     });
 
     it("should throw error if 'schema' and 'validator' are provided together", () => {
@@ -1355,7 +1410,7 @@ describe("Validation Adapters (REQ-API-04)", () => {
           validator: customAdapterFailure,
           _internalDotenvExpand: mockedDotenvExpand,
         })
-      ).rejects.toThrow("Environment validation failed. Check console output.");
+      ).rejects.toThrow(EnvValidationError);
       expect(mockCustomValidatorFailureImpl).toHaveBeenCalledTimes(1);
     });
 
@@ -1374,3 +1429,1947 @@ describe("Validation Adapters (REQ-API-04)", () => {
     });
   });
 });
+
+// --- Source Provenance Tests ---
+describe("Source Provenance", () => {
+  it("should record the winning source of each key (createEnv)", () => {
+    setupProcessEnv({ NODE_ENV: "production", SECRET_KEY: "process-secret" });
+    mockDotenvFiles({
+      "./.env.base": { API_URL: "https://base.com", PORT: "1000" },
+      "./.env.production": { PORT: "2000", SECRET_KEY: "prod-secret-key" },
+    });
+    const env = createEnv({
+      schema: testSchema,
+      dotEnvPath: ["./.env.base"],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    const provenance = getEnvProvenance(env);
+    expect(provenance).toEqual(
+      expect.objectContaining({
+        API_URL: { type: "dotenv", path: "./.env.base" },
+        PORT: { type: "dotenv", path: "./.env.production" },
+        SECRET_KEY: { type: "process.env" },
+        NODE_ENV: { type: "process.env" },
+      })
+    );
+    expect(provenance).not.toHaveProperty("BOOLEAN_VAR"); // Schema default
+  });
+
+  it("should record secrets sources by index and function name (createEnvAsync)", async () => {
+    setupProcessEnv({ API_URL: "https://process.com" });
+    mockDotenvFiles({
+      "./.env": { SECRET_KEY: "dotenv-secret-key", OVERRIDDEN: "dotenv" },
+    });
+    async function vaultSource() {
+      return { SECRET_KEY: "vault-secret-key" };
+    }
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [
+        vaultSource,
+        async () => ({ FROM_SECRET_MANAGER_2: "x" }),
+      ],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(getEnvProvenance(env)).toEqual(
+      expect.objectContaining({
+        API_URL: { type: "process.env" },
+        SECRET_KEY: { type: "secrets", index: 0, name: "vaultSource" },
+        FROM_SECRET_MANAGER_2: { type: "secrets", index: 1 },
+        OVERRIDDEN: { type: "dotenv", path: "./.env" },
+      })
+    );
+  });
+
+  it("should include provenance in validation errors", () => {
+    setupProcessEnv({ SECRET_KEY: "short" });
+    mockDotenvFiles({ "./.env": { API_URL: "not-a-url" } });
+    const error = captureError(() =>
+      createEnv({
+        schema: testSchema,
+        _internalDotenvExpand: mockedDotenvExpand,
+      })
+    ) as EnvValidationError;
+    expect(error.provenance.API_URL).toEqual({
+      type: "dotenv",
+      path: "./.env",
+    });
+    expect(error.message).toContain("- API_URL: Invalid url (from ./.env)");
+    expect(error.message).toContain(
+      "- SECRET_KEY: String must contain at least 10 character(s) (from process.env)"
+    );
+  });
+
+  it("should return undefined for objects not created by schema-env", () => {
+    expect(getEnvProvenance({ PORT: 3000 })).toBeUndefined();
+    expect(getEnvProvenance("not an object")).toBeUndefined();
+  });
+});
+
+// --- explainEnv Tests ---
+describe("explainEnv", () => {
+  it("should list every candidate per schema key in precedence order", async () => {
+    setupProcessEnv({ NODE_ENV: "development", PORT: "9999" });
+    mockDotenvFiles({
+      "./.env": { PORT: "1000", API_URL: "https://base.com" },
+      "./.env.development": { PORT: "2000" },
+    });
+    const explanation = await explainEnv({
+      schema: testSchema,
+      secretsSources: [async () => ({ PORT: "3000", SECRET_KEY: "vault" })],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(explanation.variables.PORT).toEqual({
+      candidates: [
+        { source: { type: "process.env" }, value: "9999" },
+        { source: { type: "secrets", index: 0 }, value: "3000" },
+        {
+          source: { type: "dotenv", path: "./.env.development" },
+          value: "2000",
+        },
+        { source: { type: "dotenv", path: "./.env" }, value: "1000" },
+      ],
+      source: { type: "process.env" },
+      value: "9999",
+      expanded: false,
+    });
+    expect(explanation.variables.OPTIONAL_VAR).toEqual({
+      candidates: [],
+      expanded: false,
+    });
+    expect(Object.keys(explanation.variables)).toEqual(
+      Object.keys(testSchema.shape)
+    );
+  });
+
+  it("should report whether expansion changed a value", async () => {
+    setupProcessEnv({});
+    mockDotenvFiles({
+      "./.env": {
+        BASE_URL: "https://api.example.com",
+        FULL_API_URL: "${BASE_URL}/v1",
+      },
+    });
+    mockedDotenvExpand.mockImplementation(createLocalMockExpander());
+    const { variables } = await explainEnv({
+      schema: testSchema,
+      expandVariables: true,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(variables.FULL_API_URL).toEqual({
+      candidates: [
+        {
+          source: { type: "dotenv", path: "./.env" },
+          value: "${BASE_URL}/v1",
+        },
+      ],
+      source: { type: "dotenv", path: "./.env" },
+      value: "https://api.example.com/v1",
+      expanded: true,
+    });
+    expect(variables.BASE_URL.expanded).toBe(false);
+  });
+
+  it("should report validation issues instead of throwing", async () => {
+    setupProcessEnv({ API_URL: "https://required.com" });
+    mockDotenvFiles({});
+    const explanation = await explainEnv({
+      schema: testSchema,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(explanation.success).toBe(false);
+    expect(explanation.issues).toEqual([
+      { path: ["SECRET_KEY"], message: "Required" },
+    ]);
+  });
+
+  it("should explain keys supplied by files and secrets when using a custom validator", async () => {
+    setupProcessEnv({ INPUT_VAR: "from-process" });
+    mockDotenvFiles({ "./.env": { FROM_FILE: "yes" } });
+    const explanation = await explainEnv<undefined, Record<string, unknown>>({
+      validator: {
+        validate: (data) => ({ success: true, data }),
+      },
+      secretsSources: [async () => ({ FROM_SECRET: "yes" })],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(Object.keys(explanation.variables)).toEqual([
+      "FROM_FILE",
+      "FROM_SECRET",
+    ]);
+    expect(explanation.success).toBe(true);
+  });
+});
+
+// --- Secrets Timeout & Retry Tests ---
+describe("createEnvAsync (Secrets Timeouts & Retries)", () => {
+  const hangingSource: SecretSourceFunction = () => new Promise(() => {});
+
+  beforeEach(() => {
+    setupProcessEnv({
+      API_URL: "https://required.com",
+      SECRET_KEY: "valid-process-key",
+    });
+    mockDotenvFiles({});
+  });
+
+  it("should time out a hung source and report the timeout distinctly", async () => {
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [
+        hangingSource,
+        async () => {
+          throw new Error("Vault unavailable");
+        },
+      ],
+      secretsTimeoutMs: 20,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.SECRET_KEY).toBe("valid-process-key");
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      "⚠️ [schema-env] Warning: Secrets source function at index 0 timed out after 20ms"
+    );
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      "⚠️ [schema-env] Warning: Secrets source function at index 1 failed: Vault unavailable"
+    );
+  });
+
+  it("should let a per-source timeout override the global one", async () => {
+    const slowSource: SecretSourceFunction = async () => {
+      await new Promise((r) => setTimeout(r, 30));
+      return { FROM_SECRET_MANAGER_1: "slow-but-allowed" };
+    };
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [{ fetch: slowSource, timeoutMs: 500 }],
+      secretsTimeoutMs: 5,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.FROM_SECRET_MANAGER_1).toBe("slow-but-allowed");
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  it("should retry failures with backoff until a source succeeds", async () => {
+    const flakySource = jest
+      .fn<SecretSourceFunction>()
+      .mockRejectedValueOnce(new Error("ECONNRESET"))
+      .mockImplementationOnce(hangingSource)
+      .mockResolvedValue({ FROM_SECRET_MANAGER_1: "third-time-lucky" });
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [flakySource],
+      secretsTimeoutMs: 20,
+      secretsRetry: { retries: 3, minDelayMs: 1, jitter: false },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(flakySource).toHaveBeenCalledTimes(3);
+    expect(env.FROM_SECRET_MANAGER_1).toBe("third-time-lucky");
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  it("should report the last failure and attempt count once retries are exhausted", async () => {
+    const failingSource = jest
+      .fn<SecretSourceFunction>()
+      .mockRejectedValue(new Error("Permission denied"));
+    await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [
+        { fetch: failingSource, retry: { retries: 2, minDelayMs: 1 } },
+        { fetch: hangingSource, timeoutMs: 5, retry: false },
+      ],
+      secretsRetry: { retries: 5, minDelayMs: 1 },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(failingSource).toHaveBeenCalledTimes(3);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      "⚠️ [schema-env] Warning: Secrets source function at index 0 failed (after 3 attempts): Permission denied"
+    );
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      "⚠️ [schema-env] Warning: Secrets source function at index 1 timed out after 5ms"
+    );
+  });
+
+  it("should cap exponential backoff at maxDelayMs and apply full jitter", async () => {
+    const timeoutSpy = jest.spyOn(global, "setTimeout");
+    const randomSpy = jest.spyOn(Math, "random").mockReturnValue(0.5);
+    const failingSource = jest
+      .fn<SecretSourceFunction>()
+      .mockRejectedValue(new Error("down"));
+    try {
+      await createEnvAsync({
+        schema: testSchema,
+        secretsSources: [failingSource],
+        secretsRetry: { retries: 3, minDelayMs: 4, maxDelayMs: 10, factor: 3 },
+        _internalDotenvExpand: mockedDotenvExpand,
+      });
+      const delays = timeoutSpy.mock.calls.map((call) => call[1]);
+      // 4, 12 and 36ms capped at 10ms, each halved by the mocked jitter
+      expect(delays).toEqual([2, 5, 5]);
+    } finally {
+      timeoutSpy.mockRestore();
+      randomSpy.mockRestore();
+    }
+  });
+
+  it("should expose SecretSourceTimeoutError with the exceeded timeout", () => {
+    const error = new SecretSourceTimeoutError("timed out", 250);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("SecretSourceTimeoutError");
+    expect(error.timeoutMs).toBe(250);
+  });
+});
+
+// --- Secrets Failure Policy Tests ---
+describe("createEnvAsync (Secrets Failure Policy)", () => {
+  const workingSource: SecretSourceFunction = async () => ({
+    FROM_SECRET_MANAGER_1: "from-vault",
+  });
+  const failingSource: SecretSourceFunction = async () => {
+    throw new Error("Vault unreachable");
+  };
+
+  beforeEach(() => {
+    setupProcessEnv({
+      API_URL: "https://required.com",
+      SECRET_KEY: "valid-process-key",
+    });
+    mockDotenvFiles({});
+  });
+
+  it('should reject on any failure with "fail"', async () => {
+    const error = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [workingSource, failingSource],
+      secretsFailurePolicy: "fail",
+      _internalDotenvExpand: mockedDotenvExpand,
+    }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(EnvValidationError);
+    const envError = error as EnvValidationError;
+    expect(envError.phase).toBe("secrets");
+    expect(envError.issues).toEqual([
+      {
+        path: ["secretsSources", 1],
+        message: "Secrets source function at index 1 failed: Vault unreachable",
+      },
+    ]);
+    expect(envError.message).toBe(
+      "❌ Failed to fetch secrets:\n  - secretsSources.1: Secrets source function at index 1 failed: Vault unreachable"
+    );
+    expect((envError.cause as Error).message).toBe("Vault unreachable");
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  it('should only reject when every source fails with "fail-if-all"', async () => {
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [workingSource, failingSource],
+      secretsFailurePolicy: "fail-if-all",
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.FROM_SECRET_MANAGER_1).toBe("from-vault");
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(1);
+
+    const error = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [failingSource, () => new Promise(() => {})],
+      secretsTimeoutMs: 5,
+      secretsFailurePolicy: "fail-if-all",
+      _internalDotenvExpand: mockedDotenvExpand,
+    }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(EnvValidationError);
+    expect((error as EnvValidationError).issues).toEqual([
+      {
+        path: ["secretsSources", 0],
+        message: "Secrets source function at index 0 failed: Vault unreachable",
+      },
+      {
+        path: ["secretsSources", 1],
+        message: "Secrets source function at index 1 timed out after 5ms",
+      },
+    ]);
+    expect((error as EnvValidationError).cause).toBeInstanceOf(AggregateError);
+  });
+
+  it("should always reject when a required source fails", async () => {
+    await expect(
+      createEnvAsync({
+        schema: testSchema,
+        secretsSources: [
+          workingSource,
+          { fetch: failingSource, required: true },
+        ],
+        _internalDotenvExpand: mockedDotenvExpand,
+      })
+    ).rejects.toMatchObject({
+      phase: "secrets",
+      issues: [expect.objectContaining({ path: ["secretsSources", 1] })],
+    });
+  });
+
+  it('should keep warning and continuing with the default "warn" policy', async () => {
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [failingSource, { fetch: workingSource, required: true }],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.FROM_SECRET_MANAGER_1).toBe("from-vault");
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      "⚠️ [schema-env] Warning: Secrets source function at index 0 failed: Vault unreachable"
+    );
+  });
+});
+
+// --- Structured Secrets Source Tests ---
+describe("createEnvAsync (Named Secrets Sources)", () => {
+  beforeEach(() => {
+    setupProcessEnv({ API_URL: "https://required.com" });
+    mockDotenvFiles({});
+  });
+
+  it("should merge by priority instead of array order", async () => {
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [
+        {
+          name: "vault",
+          priority: 10,
+          fetch: async () => ({ SECRET_KEY: "vault-secret-key" }),
+        },
+        async () => ({ SECRET_KEY: "fallback-secret-key", OVERRIDDEN: "a" }),
+        {
+          name: "aws",
+          priority: 5,
+          fetch: async () => ({
+            SECRET_KEY: "aws-secret-key",
+            OVERRIDDEN: "b",
+          }),
+        },
+      ],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.SECRET_KEY).toBe("vault-secret-key");
+    expect(env.OVERRIDDEN).toBe("b");
+    expect(getEnvProvenance(env)).toEqual(
+      expect.objectContaining({
+        SECRET_KEY: { type: "secrets", index: 0, name: "vault" },
+        OVERRIDDEN: { type: "secrets", index: 2, name: "aws" },
+      })
+    );
+  });
+
+  it("should ignore keys outside a source's allowlist", async () => {
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [
+        {
+          name: "vault",
+          keys: ["SECRET_KEY"],
+          fetch: async () => ({
+            SECRET_KEY: "vault-secret-key",
+            API_URL: "https://hijacked.example.com",
+          }),
+        },
+      ],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.SECRET_KEY).toBe("vault-secret-key");
+    expect(env.API_URL).toBe("https://required.com");
+  });
+
+  it("should use source names in warnings, errors and error formatting", async () => {
+    const error = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [
+        {
+          name: "vault",
+          fetch: async () => {
+            throw new Error("403 Forbidden");
+          },
+        },
+        {
+          name: "aws",
+          fetch: async () => ({ SECRET_KEY: "short" }),
+        },
+      ],
+      _internalDotenvExpand: mockedDotenvExpand,
+    }).catch((e: unknown) => e);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      '⚠️ [schema-env] Warning: Secrets source "vault" failed: 403 Forbidden'
+    );
+    expect((error as EnvValidationError).message).toContain(
+      '- SECRET_KEY: String must contain at least 10 character(s) (from secrets source "aws")'
+    );
+
+    const secretsError = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [
+        { name: "vault", required: true, fetch: () => new Promise(() => {}) },
+      ],
+      secretsTimeoutMs: 5,
+      _internalDotenvExpand: mockedDotenvExpand,
+    }).catch((e: unknown) => e);
+    expect((secretsError as EnvValidationError).issues).toEqual([
+      {
+        path: ["secretsSources", 0],
+        message: 'Secrets source "vault" timed out after 5ms',
+      },
+    ]);
+  });
+});
+
+// --- Secrets Source Context Tests ---
+describe("createEnvAsync (Secrets Source Context)", () => {
+  it("should pass the expanded .env values and the missing schema keys", async () => {
+    setupProcessEnv({ API_URL: "https://required.com" });
+    mockDotenvFiles({
+      "./.env": { BASE_URL: "https://vault.internal", VAR_A: "${BASE_URL}/v1" },
+    });
+    let received: SecretSourceContext | undefined;
+    await createEnvAsync({
+      schema: testSchema,
+      expandVariables: true,
+      secretsSources: [
+        async (context) => {
+          received = context;
+          return { SECRET_KEY: `key-for-${context.dotenv.VAR_A}` };
+        },
+      ],
+      _internalDotenvExpand: createLocalMockExpander(),
+    });
+    expect(received?.dotenv).toEqual({
+      BASE_URL: "https://vault.internal",
+      VAR_A: "https://vault.internal/v1",
+    });
+    expect(Object.isFrozen(received?.dotenv)).toBe(true);
+    expect(received?.missingKeys).toContain("SECRET_KEY");
+    expect(received?.missingKeys).not.toContain("API_URL"); // From process.env
+    expect(received?.missingKeys).not.toContain("BASE_URL"); // From .env
+    expect(received?.signal).toBeInstanceOf(AbortSignal);
+    expect(received?.signal.aborted).toBe(false);
+  });
+
+  it("should abort the signal of an attempt that times out", async () => {
+    setupProcessEnv({
+      API_URL: "https://required.com",
+      SECRET_KEY: "valid-process-key",
+    });
+    mockDotenvFiles({});
+    let signal: AbortSignal | undefined;
+    await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [
+        (context) => {
+          signal = context.signal;
+          return new Promise(() => {});
+        },
+      ],
+      secretsTimeoutMs: 5,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBeInstanceOf(SecretSourceTimeoutError);
+  });
+
+  it("should report no missing keys when using a custom validator", async () => {
+    mockDotenvFiles({});
+    const source = jest
+      .fn<SecretSourceFunction>()
+      .mockResolvedValue({ FROM_SECRET: "yes" });
+    await createEnvAsync<undefined, Record<string, unknown>>({
+      validator: { validate: (data) => ({ success: true, data }) },
+      secretsSources: [source],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(source.mock.calls[0][0].missingKeys).toEqual([]);
+  });
+});
+
+// --- Cancellation Tests ---
+describe("createEnvAsync (Cancellation)", () => {
+  beforeEach(() => {
+    setupProcessEnv({
+      API_URL: "https://required.com",
+      SECRET_KEY: "valid-process-key",
+    });
+    mockDotenvFiles({});
+  });
+
+  it("should reject with EnvAbortError without fetching if already aborted", async () => {
+    const source = jest.fn<SecretSourceFunction>().mockResolvedValue({});
+    const controller = new AbortController();
+    controller.abort(new Error("Shutting down"));
+    const error = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [source],
+      signal: controller.signal,
+      _internalDotenvExpand: mockedDotenvExpand,
+    }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(EnvAbortError);
+    expect((error as EnvAbortError).message).toBe(
+      "❌ Environment loading was aborted: Shutting down"
+    );
+    expect((error as EnvAbortError).cause).toEqual(new Error("Shutting down"));
+    expect(source).not.toHaveBeenCalled();
+  });
+
+  it("should abort in-flight sources and reject instead of warning", async () => {
+    const controller = new AbortController();
+    let sourceSignal: AbortSignal | undefined;
+    const promise = createEnvAsync({
+      schema: testSchema,
+      secretsSources: [
+        ({ signal }) => {
+          sourceSignal = signal;
+          return new Promise(() => {}); // Never settles on its own
+        },
+      ],
+      secretsFailurePolicy: "warn",
+      signal: controller.signal,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    await new Promise((r) => setTimeout(r, 1));
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(EnvAbortError);
+    expect(sourceSignal?.aborted).toBe(true);
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  it("should reject when aborted right after the call, without secrets sources", async () => {
+    setupProcessEnv({
+      API_URL: "https://required.com",
+      SECRET_KEY: "longenoughsecretkey",
+    });
+    mockDotenvFiles({});
+    const controller = new AbortController();
+    const promise = createEnvAsync({
+      schema: testSchema,
+      signal: controller.signal,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    controller.abort();
+    await expect(promise).rejects.toBeInstanceOf(EnvAbortError);
+  });
+
+  it("should stop retrying once aborted", async () => {
+    const controller = new AbortController();
+    const source = jest
+      .fn<SecretSourceFunction>()
+      .mockImplementation(async () => {
+        setTimeout(() => controller.abort(), 1);
+        throw new Error("Vault unreachable");
+      });
+    await expect(
+      createEnvAsync({
+        schema: testSchema,
+        secretsSources: [source],
+        secretsRetry: { retries: 5, minDelayMs: 1000, jitter: false },
+        signal: controller.signal,
+        _internalDotenvExpand: mockedDotenvExpand,
+      })
+    ).rejects.toBeInstanceOf(EnvAbortError);
+    expect(source).toHaveBeenCalledTimes(1);
+  });
+});
+
+// --- File Secrets Source Tests ---
+describe("createFileSecretsSource", () => {
+  const readdirSyncSpy = jest.spyOn(fs, "readdirSync");
+
+  beforeEach(() => {
+    readdirSyncSpy.mockReset();
+    readdirSyncSpy.mockImplementation(() => {
+      const error = new Error("ENOENT: no such file or directory");
+      (error as NodeJS.ErrnoException).code = "ENOENT";
+      throw error;
+    });
+  });
+
+  afterAll(() => {
+    readdirSyncSpy.mockRestore();
+  });
+
+  const eisdir = Object.assign(new Error("EISDIR: illegal operation"), {
+    code: "EISDIR",
+  });
+
+  it("should read one variable per file from the secrets directory", async () => {
+    setupProcessEnv({ API_URL: "https://required.com" });
+    readdirSyncSpy.mockReturnValue([
+      "SECRET_KEY",
+      "VAR_A",
+      "OPTIONAL_VAR",
+      "..data",
+      "NOT_IN_SCHEMA",
+    ] as unknown as ReturnType<typeof fs.readdirSync>);
+    mockDotenvFiles({
+      "/run/secrets/SECRET_KEY": "secret-from-file\n",
+      "/run/secrets/VAR_A": "line1\nline2",
+      "/run/secrets/OPTIONAL_VAR": eisdir, // Skipped, like subdirectories
+    });
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [createFileSecretsSource()],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(readdirSyncSpy).toHaveBeenCalledWith("/run/secrets");
+    expect(env.SECRET_KEY).toBe("secret-from-file"); // Trailing newline removed
+    expect(env.VAR_A).toBe("line1\nline2");
+    expect(env.OPTIONAL_VAR).toBeUndefined();
+    expect(getEnvProvenance(env)?.SECRET_KEY).toEqual({
+      type: "secrets",
+      index: 0,
+      name: "files",
+    });
+    const readPaths = readFileSyncSpy.mock.calls.map((call) => call[0]);
+    expect(readPaths).not.toContain("/run/secrets/..data");
+    expect(readPaths).not.toContain("/run/secrets/NOT_IN_SCHEMA");
+  });
+
+  it("should resolve _FILE references from .env files and process.env", async () => {
+    setupProcessEnv({
+      API_URL_FILE: "/secrets/api-url",
+      UNRELATED_FILE: "/etc/unrelated",
+    });
+    mockDotenvFiles({
+      "./.env": {
+        SECRET_KEY_FILE: "/secrets/key",
+        SECRET_KEY: "dotenv-secret-key",
+      },
+      "/secrets/key": "file-secret-key\r\n",
+      "/secrets/api-url": "https://from-file.example.com",
+    });
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [createFileSecretsSource({ directory: false })],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.SECRET_KEY).toBe("file-secret-key"); // Secrets override .env
+    expect(env.API_URL).toBe("https://from-file.example.com");
+    expect(readdirSyncSpy).not.toHaveBeenCalled();
+    expect(readFileSyncSpy).not.toHaveBeenCalledWith(
+      "/etc/unrelated",
+      expect.anything()
+    );
+  });
+
+  it("should look up only the given keys", async () => {
+    setupProcessEnv({ CUSTOM_FILE: "/secrets/custom", OTHER_FILE: "/x" });
+    mockDotenvFiles({ "/secrets/custom": "custom-value" });
+    const env = await createEnvAsync<undefined, Record<string, unknown>>({
+      validator: { validate: (data) => ({ success: true, data }) },
+      secretsSources: [
+        createFileSecretsSource({ directory: false, keys: ["CUSTOM"] }),
+      ],
+      secretsFailurePolicy: "fail",
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.CUSTOM).toBe("custom-value");
+  });
+
+  it("should fail the source when a referenced file is missing", async () => {
+    setupProcessEnv({ SECRET_KEY_FILE: "/secrets/missing" });
+    mockDotenvFiles({});
+    await expect(
+      createEnvAsync({
+        schema: testSchema,
+        secretsSources: [
+          createFileSecretsSource({ name: "docker", required: true }),
+        ],
+        _internalDotenvExpand: mockedDotenvExpand,
+      })
+    ).rejects.toMatchObject({
+      phase: "secrets",
+      issues: [
+        {
+          path: ["secretsSources", 0],
+          message: expect.stringContaining(
+            'Secrets source "docker" failed: ENOENT'
+          ),
+        },
+      ],
+    });
+  });
+});
+
+describe("createEnvAsync (Secret References)", () => {
+  it("should resolve registered reference schemes before validation", async () => {
+    setupProcessEnv({ API_URL: "https://api.example.com" });
+    mockDotenvFiles({
+      "./.env": {
+        SECRET_KEY: "secret://vault/kv/app#password",
+        OPTIONAL_VAR: "file:///run/secrets/optional",
+        VAR_A: "https://not-a-reference.example.com",
+      },
+      "/run/secrets/optional": "from-file\n",
+    });
+    const secretResolver = jest.fn<SecretResolver>(async (reference) =>
+      reference.hash === "#password" ? "resolved-secret-key" : "wrong"
+    );
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretResolvers: { secret: secretResolver, file: fileSecretResolver },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+
+    expect(env.SECRET_KEY).toBe("resolved-secret-key");
+    expect(env.OPTIONAL_VAR).toBe("from-file");
+    expect(env.VAR_A).toBe("https://not-a-reference.example.com"); // No "https" resolver
+    expect(secretResolver).toHaveBeenCalledTimes(1);
+    const [reference, context] = secretResolver.mock.calls[0];
+    expect(reference.href).toBe("secret://vault/kv/app#password");
+    expect(context.key).toBe("SECRET_KEY");
+    expect(context.signal).toBeInstanceOf(AbortSignal);
+    // The reference's source is still reported, and the resolved value is redacted
+    expect(getEnvProvenance(env)?.SECRET_KEY).toEqual({
+      type: "dotenv",
+      path: "./.env",
+    });
+    expect(JSON.stringify(env)).not.toContain("resolved-secret-key");
+  });
+
+  it("should resolve references supplied by process.env and secrets sources", async () => {
+    setupProcessEnv({ SECRET_KEY: "secret://env" });
+    mockDotenvFiles({});
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [async () => ({ API_URL: "secret://api" })],
+      secretResolvers: {
+        secret: async (reference) =>
+          reference.host === "api"
+            ? "https://resolved.example.com"
+            : "resolved-from-env",
+      },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.API_URL).toBe("https://resolved.example.com");
+    expect(env.SECRET_KEY).toBe("resolved-from-env");
+  });
+
+  it("should reject with every reference that cannot be resolved", async () => {
+    setupProcessEnv({
+      API_URL: "secret://missing",
+      SECRET_KEY: "secret://slow",
+    });
+    mockDotenvFiles({});
+    const promise = createEnvAsync({
+      schema: testSchema,
+      secretResolvers: {
+        secret: (reference, { signal }) =>
+          reference.host === "slow"
+            ? new Promise((_resolve, reject) => {
+                signal.addEventListener("abort", () => reject(signal.reason));
+              })
+            : Promise.reject(new Error("Not found")),
+      },
+      secretsTimeoutMs: 20,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(EnvValidationError);
+    await expect(promise).rejects.toMatchObject({
+      phase: "secrets",
+      issues: [
+        {
+          path: ["API_URL"],
+          message: 'Could not resolve "secret://missing": Not found',
+        },
+        {
+          path: ["SECRET_KEY"],
+          message: "Secret reference in SECRET_KEY timed out after 20ms",
+        },
+      ],
+    });
+  });
+
+  it("should show resolved values as redacted in explainEnv", async () => {
+    setupProcessEnv({ SECRET_KEY: "secret://key", UNRELATED: "secret://x" });
+    mockDotenvFiles({});
+    const resolver = jest.fn<SecretResolver>(async () => "resolved-secret-key");
+    const explanation = await explainEnv({
+      schema: testSchema,
+      secretResolvers: { secret: resolver },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(explanation.variables.SECRET_KEY).toMatchObject({
+      candidates: [{ source: { type: "process.env" }, value: "[REDACTED]" }],
+      value: "[REDACTED]",
+    });
+    expect(explanation.issues.map((issue) => issue.path)).toEqual([
+      ["API_URL"],
+    ]);
+    expect(resolver).toHaveBeenCalledTimes(1); // Keys outside the schema are skipped
+  });
+
+  it("should only resolve .env and secrets source keys with a custom validator", async () => {
+    setupProcessEnv({ UNRELATED_PATH: "file:///does/not/exist" });
+    mockDotenvFiles({ "./.env": { DB_PASSWORD: "file:///run/secrets/db" } });
+    const resolver = jest.fn<SecretResolver>(async () => "resolved");
+    const env = await createEnvAsync<undefined, Record<string, unknown>>({
+      validator: {
+        validate: (data) => ({ success: true, data: { ...data } }),
+      },
+      secretsSources: [async () => ({ API_TOKEN: "file:///run/secrets/api" })],
+      secretResolvers: { file: resolver },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(resolver.mock.calls.map(([, context]) => context.key)).toEqual([
+      "DB_PASSWORD",
+      "API_TOKEN",
+    ]);
+    expect(env.DB_PASSWORD).toBe("resolved");
+    expect(env.UNRELATED_PATH).toBe("file:///does/not/exist");
+  });
+});
+
+describe("createEnvAsync (Secrets Cache)", () => {
+  let cacheDir: string;
+  let cachePath: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "schema-env-cache-"));
+    cachePath = path.join(cacheDir, "nested", "secrets");
+    mockDotenvFiles({});
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  const load = (
+    source: SecretSourceFunction,
+    cache: Partial<SecretsCacheOptions> = {}
+  ) =>
+    createEnvAsync({
+      schema: testSchema,
+      secretsSources: [{ name: "vault", fetch: source }],
+      secretsCache: { path: cachePath, ttlMs: 60_000, ...cache },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+
+  it("should reuse encrypted cached values within the TTL", async () => {
+    setupProcessEnv({
+      API_URL: "https://api.example.com",
+      SCHEMA_ENV_CACHE_KEY: "cache-key",
+    });
+    const source = jest.fn<SecretSourceFunction>(async () => ({
+      SECRET_KEY: "cached-secret-key",
+    }));
+
+    expect((await load(source)).SECRET_KEY).toBe("cached-secret-key");
+    expect((await load(source)).SECRET_KEY).toBe("cached-secret-key");
+    expect(source).toHaveBeenCalledTimes(1);
+
+    const contents = await fs.promises.readFile(cachePath, "utf8");
+    expect(contents).not.toContain("cached-secret-key");
+    expect(fs.statSync(cachePath).mode & 0o777).toBe(0o600);
+  });
+
+  it("should derive the cipher key with a fresh random salt on every write", async () => {
+    setupProcessEnv({
+      API_URL: "https://api.example.com",
+      SCHEMA_ENV_CACHE_KEY: "cache-key",
+    });
+    const readHeader = async () =>
+      JSON.parse(await fs.promises.readFile(cachePath, "utf8")) as {
+        version: number;
+        salt: string;
+      };
+    await load(async () => ({ SECRET_KEY: "cached-secret-key" }));
+    const first = await readHeader();
+    await load(async () => ({ SECRET_KEY: "cached-secret-key" }), {
+      ttlMs: 0,
+    });
+    const second = await readHeader();
+
+    expect(first.version).toBe(2);
+    expect(Buffer.from(first.salt, "base64")).toHaveLength(16);
+    expect(second.salt).not.toBe(first.salt);
+  });
+
+  it("should fall back to expired values when the source fails", async () => {
+    setupProcessEnv({
+      API_URL: "https://api.example.com",
+      MY_CACHE_KEY: "cache-key",
+    });
+    await load(async () => ({ SECRET_KEY: "cached-secret-key" }), {
+      keyEnvVar: "MY_CACHE_KEY",
+    });
+    const failing = jest.fn<SecretSourceFunction>(() =>
+      Promise.reject(new Error("Rate limited"))
+    );
+
+    const env = await load(failing, { keyEnvVar: "MY_CACHE_KEY", ttlMs: 0 });
+    expect(failing).toHaveBeenCalledTimes(1); // Expired, so the source was tried
+    expect(env.SECRET_KEY).toBe("cached-secret-key");
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /Secrets source "vault" failed \(Rate limited\); using cached values fetched \d+s ago\./
+      )
+    );
+
+    await expect(
+      load(failing, {
+        keyEnvVar: "MY_CACHE_KEY",
+        ttlMs: 0,
+        staleIfError: false,
+      })
+    ).rejects.toMatchObject({ phase: "validation" });
+  });
+
+  it("should ignore a cache written with another key, and skip caching without a key", async () => {
+    setupProcessEnv({
+      API_URL: "https://api.example.com",
+      SCHEMA_ENV_CACHE_KEY: "first-key",
+    });
+    const source = jest.fn<SecretSourceFunction>(async () => ({
+      SECRET_KEY: "fresh-secret-key",
+    }));
+    await load(source);
+
+    process.env.SCHEMA_ENV_CACHE_KEY = "second-key";
+    expect((await load(source)).SECRET_KEY).toBe("fresh-secret-key");
+    expect(source).toHaveBeenCalledTimes(2);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      expect.stringContaining(`Ignoring secrets cache ${cachePath}:`)
+    );
+
+    delete process.env.SCHEMA_ENV_CACHE_KEY;
+    await load(source);
+    expect(source).toHaveBeenCalledTimes(3);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      "⚠️ [schema-env] Warning: Secrets cache disabled: SCHEMA_ENV_CACHE_KEY is not set."
+    );
+  });
+});
+
+describe("createEnvAsyncLive", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    setupProcessEnv({ API_URL: "https://api.example.com" });
+    mockDotenvFiles({});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Each call returns the next value; the last one repeats
+  const rotatingSource = (...values: (string | Error)[]) =>
+    jest.fn<SecretSourceFunction>(async () => {
+      const value = values.length > 1 ? values.shift()! : values[0];
+      if (value instanceof Error) {
+        throw value;
+      }
+      return { SECRET_KEY: value };
+    });
+
+  it("should refresh on the interval and emit the changed keys", async () => {
+    const source = rotatingSource(
+      "secret-key-1",
+      "secret-key-1",
+      "rotated-key-2"
+    );
+    const onChange = jest.fn<EnvChangeListener<z.infer<typeof testSchema>>>();
+    const live = await createEnvAsyncLive(
+      {
+        schema: testSchema,
+        secretsSources: [source],
+        refreshIntervalMs: 1000,
+        _internalDotenvExpand: mockedDotenvExpand,
+      },
+      onChange
+    );
+    expect(live.env.SECRET_KEY).toBe("secret-key-1");
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(source).toHaveBeenCalledTimes(2);
+    expect(onChange).not.toHaveBeenCalled(); // Nothing changed
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(source).toHaveBeenCalledTimes(3);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    const [env, changes] = onChange.mock.calls[0];
+    expect(env).toBe(live.env);
+    expect(live.env.SECRET_KEY).toBe("rotated-key-2");
+    expect(changes).toEqual([
+      { key: "SECRET_KEY", previous: "secret-key-1", current: "rotated-key-2" },
+    ]);
+
+    live.close();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(source).toHaveBeenCalledTimes(3);
+  });
+
+  it("should keep the last valid environment when a refresh fails", async () => {
+    const source = rotatingSource("secret-key-1", "short");
+    const onError = jest.fn<(error: Error) => void>();
+    const live = await createEnvAsyncLive({
+      schema: testSchema,
+      secretsSources: [source],
+      refreshIntervalMs: 1000,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    live.on("error", onError);
+
+    await live.refresh();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(EnvValidationError);
+    expect((onError.mock.calls[0][0] as EnvValidationError).phase).toBe(
+      "validation"
+    );
+    expect(live.env.SECRET_KEY).toBe("secret-key-1");
+
+    // Without an error listener, failures are logged instead
+    live.off("error", onError);
+    await live.refresh();
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Failed to reload the environment")
+    );
+    live.close();
+  });
+
+  it("should abort the refresh in progress when closed or when the signal aborts", async () => {
+    let fetchSignal: AbortSignal | undefined;
+    const source = jest
+      .fn<SecretSourceFunction>()
+      .mockResolvedValueOnce({ SECRET_KEY: "secret-key-1" })
+      .mockImplementation(async ({ signal }) => {
+        fetchSignal = signal;
+        return new Promise(() => {}); // Never settles
+      });
+    const controller = new AbortController();
+    const onError = jest.fn();
+    const live = await createEnvAsyncLive({
+      schema: testSchema,
+      secretsSources: [source],
+      refreshIntervalMs: 1000,
+      signal: controller.signal,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    live.on("error", onError);
+
+    const refresh = live.refresh();
+    await jest.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await refresh;
+    expect(fetchSignal?.aborted).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+    expect(live.env.SECRET_KEY).toBe("secret-key-1");
+  });
+
+  it("should reject an invalid refreshIntervalMs", async () => {
+    await expect(
+      createEnvAsyncLive({ schema: testSchema, refreshIntervalMs: 0 })
+    ).rejects.toThrow("refreshIntervalMs must be a positive number");
+  });
+});
+
+describe("Prefix Filtering", () => {
+  it("should validate only prefixed variables, without the prefix", () => {
+    setupProcessEnv({
+      BILLING_PORT: "3000",
+      BILLING_SECRET_KEY: "billing-secret-key",
+      API_URL: "not-a-url", // Another app's variable
+      PORT: "abc",
+    });
+    mockDotenvFiles({
+      "./.env": { BILLING_API_URL: "https://billing.example.com" },
+    });
+    const env = createEnv({
+      schema: testSchema,
+      prefix: "BILLING_",
+      sensitive: ["SECRET_KEY"],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+
+    expect(env.PORT).toBe(3000);
+    expect(env.API_URL).toBe("https://billing.example.com");
+    expect(env).not.toHaveProperty("BILLING_PORT");
+    expect(getEnvProvenance(env)?.API_URL).toEqual({
+      type: "dotenv",
+      path: "./.env",
+    });
+    expect(JSON.stringify(env)).not.toContain("billing-secret-key");
+  });
+
+  it("should report errors under the full variable names", () => {
+    setupProcessEnv({ BILLING_PORT: "abc", SECRET_KEY: "unprefixed-key" });
+    mockDotenvFiles({
+      "./.env": { BILLING_API_URL: "https://billing.example.com" },
+    });
+    let error: EnvValidationError | undefined;
+    try {
+      createEnv({
+        schema: testSchema,
+        prefix: "BILLING_",
+        _internalDotenvExpand: mockedDotenvExpand,
+      });
+    } catch (e) {
+      error = e as EnvValidationError;
+    }
+
+    expect(error?.issues.map((issue) => issue.path)).toEqual([
+      ["BILLING_PORT"],
+      ["BILLING_SECRET_KEY"],
+    ]);
+    expect(error?.message).toContain(
+      "- BILLING_PORT: Expected number, received nan (from process.env)"
+    );
+    expect(error?.message).toContain("- BILLING_SECRET_KEY: Required");
+  });
+
+  it("should pass full names to secrets sources and explain them under full names", async () => {
+    setupProcessEnv({ BILLING_API_URL: "https://billing.example.com" });
+    mockDotenvFiles({});
+    const source = jest.fn<SecretSourceFunction>(async () => ({
+      BILLING_SECRET_KEY: "billing-secret-key",
+      SECRET_KEY: "ignored-secret-key",
+    }));
+    const options = {
+      schema: testSchema,
+      prefix: "BILLING_",
+      secretsSources: [source],
+      _internalDotenvExpand: mockedDotenvExpand,
+    };
+
+    const env = await createEnvAsync(options);
+    expect(env.SECRET_KEY).toBe("billing-secret-key");
+    const context = source.mock.calls[0][0];
+    expect(context.schemaKeys).toContain("BILLING_SECRET_KEY");
+    expect(context.missingKeys).toContain("BILLING_SECRET_KEY");
+    expect(context.missingKeys).not.toContain("BILLING_API_URL");
+
+    const explanation = await explainEnv(options);
+    expect(explanation.variables.BILLING_SECRET_KEY.value).toBe(
+      "billing-secret-key"
+    );
+    expect(explanation.variables).not.toHaveProperty("SECRET_KEY");
+    expect(explanation.success).toBe(true);
+  });
+});
+
+describe("Nested Variables", () => {
+  const nestedSchema = z.object({
+    DB: z.object({
+      HOST: z.string(),
+      PORT: z.coerce.number().int(),
+    }),
+    REDIS: z.object({ URL: z.string().url() }).optional(),
+    LOG_LEVEL: z.string().default("info"),
+  });
+
+  it("should nest delimited variables before validation", () => {
+    setupProcessEnv({ DB__PORT: "5432", REDIS__URL: "redis://cache:6379" });
+    mockDotenvFiles({ "./.env": { DB__HOST: "db.internal" } });
+    const env = createEnv({
+      schema: nestedSchema,
+      nestingDelimiter: "__",
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env).toEqual({
+      DB: { HOST: "db.internal", PORT: 5432 },
+      REDIS: { URL: "redis://cache:6379" },
+      LOG_LEVEL: "info",
+    });
+    expect(getEnvProvenance(env)?.DB__HOST).toEqual({
+      type: "dotenv",
+      path: "./.env",
+    });
+  });
+
+  it("should report errors under the original variable names", () => {
+    setupProcessEnv({ APP_DB__PORT: "abc", APP_REDIS__URL: "nope" });
+    mockDotenvFiles({});
+    let error: EnvValidationError | undefined;
+    try {
+      createEnv({
+        schema: nestedSchema,
+        prefix: "APP_",
+        nestingDelimiter: "__",
+        _internalDotenvExpand: mockedDotenvExpand,
+      });
+    } catch (e) {
+      error = e as EnvValidationError;
+    }
+    expect(error?.issues.map((issue) => issue.path)).toEqual([
+      ["APP_DB__HOST"],
+      ["APP_DB__PORT"],
+      ["APP_REDIS__URL"],
+    ]);
+    expect(error?.message).toContain(
+      "- APP_DB__PORT: Expected number, received nan (from process.env)"
+    );
+  });
+
+  it("should let a group win over a clashing plain variable", () => {
+    setupProcessEnv({ DB: "postgres://x", DB__HOST: "h", DB__PORT: "1" });
+    mockDotenvFiles({});
+    const env = createEnv({
+      schema: nestedSchema,
+      nestingDelimiter: "__",
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.DB).toEqual({ HOST: "h", PORT: 1 });
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      "⚠️ [schema-env] Warning: Ignoring DB: it clashes with variables nested under it."
+    );
+  });
+
+  it("should not let a __proto__ segment pollute Object.prototype", () => {
+    setupProcessEnv({});
+    mockDotenvFiles({ "./.env": { "B.__proto__.fromFile": "yes" } });
+    const env = createEnv({
+      schema: z.object({ A: z.object({}).passthrough().optional() }),
+      nestingDelimiter: ".",
+      runtimeEnv: { "A.__proto__.polluted": "yes" },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(({} as Record<string, unknown>).fromFile).toBeUndefined();
+    expect(Object.getPrototypeOf(env.A)).toBe(Object.prototype);
+  });
+
+  it("should redact nested sensitive values marked either way", () => {
+    setupProcessEnv({
+      DB__HOST: "db.internal",
+      DB__PORT: "5432",
+      DB__PASS: "hunter2-pw",
+      CACHE__HOST: "cache.internal",
+      CACHE__TOKEN: "cache-token",
+    });
+    mockDotenvFiles({});
+    const env = createEnv({
+      schema: z.object({
+        DB: z.object({
+          HOST: z.string(),
+          PORT: z.coerce.number(),
+          PASS: z.string(),
+        }),
+        CACHE: z.object({
+          HOST: z.string(),
+          TOKEN: sensitive(z.string()),
+        }),
+      }),
+      nestingDelimiter: "__",
+      sensitive: ["DB__PASS"],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.DB.PASS).toBe("hunter2-pw");
+    expect(env.CACHE.TOKEN).toBe("cache-token");
+    const redacted = {
+      DB: { HOST: "db.internal", PORT: 5432, PASS: "[REDACTED]" },
+      CACHE: { HOST: "cache.internal", TOKEN: "[REDACTED]" },
+    };
+    expect(JSON.parse(JSON.stringify(env))).toEqual(redacted);
+    expect(JSON.parse(String(env))).toEqual(redacted);
+    expect(inspect(env)).not.toMatch(/hunter2-pw|cache-token/);
+  });
+
+  it("should redact a whole group listed by its name", () => {
+    setupProcessEnv({ DB__HOST: "db.internal", DB__PORT: "5432" });
+    mockDotenvFiles({});
+    const env = createEnv({
+      schema: nestedSchema,
+      nestingDelimiter: "__",
+      sensitive: ["DB"],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(JSON.parse(JSON.stringify(env)).DB).toBe("[REDACTED]");
+  });
+
+  it("should give secrets sources and explainEnv the delimited names", async () => {
+    setupProcessEnv({ DB__HOST: "db.internal" });
+    mockDotenvFiles({});
+    const source = jest.fn<SecretSourceFunction>(async () => ({
+      DB__PORT: "5432",
+    }));
+    const options = {
+      schema: nestedSchema,
+      nestingDelimiter: "__",
+      secretsSources: [source],
+      _internalDotenvExpand: mockedDotenvExpand,
+    };
+    await createEnvAsync(options);
+    expect(source.mock.calls[0][0].missingKeys).toEqual([
+      "DB__PORT",
+      "REDIS__URL",
+      "LOG_LEVEL",
+    ]);
+
+    const explanation = await explainEnv(options);
+    expect(Object.keys(explanation.variables)).toEqual([
+      "DB__HOST",
+      "DB__PORT",
+      "REDIS__URL",
+      "LOG_LEVEL",
+    ]);
+    expect(explanation.variables.DB__PORT.source).toMatchObject({
+      type: "secrets",
+      index: 0,
+    });
+    expect(explanation.success).toBe(true);
+  });
+});
+
+describe("Client/Server Split", () => {
+  const server = z.object({
+    DATABASE_URL: z.string().url(),
+    PORT: z.coerce.number().default(8080),
+  });
+  const client = z.object({ PUBLIC_API_URL: z.string().url() });
+
+  it("should validate server and client variables on the server", () => {
+    setupProcessEnv({ DATABASE_URL: "postgres://db.internal/app" });
+    mockDotenvFiles({
+      "./.env": { PUBLIC_API_URL: "https://api.example.com" },
+    });
+    const env = createEnv({
+      server,
+      client,
+      clientPrefix: "PUBLIC_",
+      isServer: true,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env).toEqual({
+      DATABASE_URL: "postgres://db.internal/app",
+      PORT: 8080,
+      PUBLIC_API_URL: "https://api.example.com",
+    });
+  });
+
+  it("should report missing server variables on the server", () => {
+    setupProcessEnv({ PUBLIC_API_URL: "https://api.example.com" });
+    mockDotenvFiles({});
+    expect(() =>
+      createEnv({
+        server,
+        client,
+        clientPrefix: "PUBLIC_",
+        isServer: true,
+        _internalDotenvExpand: mockedDotenvExpand,
+      })
+    ).toThrow(EnvValidationError);
+  });
+
+  it("should validate only client variables on the client and guard server ones", () => {
+    mockDotenvFiles({
+      "./.env": { PUBLIC_API_URL: "https://from-file.example.com" },
+    });
+    const env = createEnv({
+      server,
+      client,
+      clientPrefix: "PUBLIC_",
+      isServer: false,
+      runtimeEnv: { PUBLIC_API_URL: "https://api.example.com" },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.PUBLIC_API_URL).toBe("https://api.example.com");
+    expect(readFileSyncSpy).not.toHaveBeenCalled();
+    expect(() => env.DATABASE_URL).toThrow(
+      "❌ Attempted to access server-side environment variable 'DATABASE_URL' on the client."
+    );
+    expect(getEnvProvenance(env)?.PUBLIC_API_URL).toEqual({
+      type: "process.env",
+    });
+  });
+
+  it("should require runtimeEnv on the client", () => {
+    mockDotenvFiles({});
+    expect(() =>
+      createEnv({ server, client, clientPrefix: "PUBLIC_", isServer: false })
+    ).toThrow(
+      "'runtimeEnv' is required on the client (e.g. 'import.meta.env'), since there is no process.env."
+    );
+  });
+
+  it("should default to the server when there is no window", () => {
+    setupProcessEnv({
+      DATABASE_URL: "postgres://db.internal/app",
+      PUBLIC_API_URL: "https://api.example.com",
+    });
+    mockDotenvFiles({});
+    const env = createEnv({
+      server,
+      client,
+      clientPrefix: "PUBLIC_",
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.DATABASE_URL).toBe("postgres://db.internal/app");
+  });
+
+  it("should reject variables on the wrong side of the client prefix", () => {
+    mockDotenvFiles({});
+    expect(() =>
+      createEnv({
+        server,
+        client: z.object({ API_URL: z.string() }),
+        clientPrefix: "PUBLIC_",
+      })
+    ).toThrow(
+      "Client variable 'API_URL' must start with the client prefix 'PUBLIC_'."
+    );
+    expect(() =>
+      createEnv({
+        server: z.object({ PUBLIC_SECRET: z.string() }),
+        client,
+        clientPrefix: "PUBLIC_",
+      })
+    ).toThrow(
+      "Server variable 'PUBLIC_SECRET' must not start with the client prefix 'PUBLIC_'."
+    );
+  });
+});
+
+describe("Runtime Environment", () => {
+  it("should read variables and NODE_ENV from runtimeEnv instead of process.env", () => {
+    setupProcessEnv({
+      NODE_ENV: "development",
+      SECRET_KEY: "from-process-env",
+    });
+    mockDotenvFiles({
+      "./.env": { PORT: "3000" },
+      "./.env.production": { API_URL: "https://prod.example.com" },
+      "./.env.development": { API_URL: "https://dev.example.com" },
+    });
+    const env = createEnv({
+      schema: testSchema,
+      runtimeEnv: { NODE_ENV: "production", SECRET_KEY: "from-runtime-env" },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.NODE_ENV).toBe("production");
+    expect(env.API_URL).toBe("https://prod.example.com");
+    expect(env.SECRET_KEY).toBe("from-runtime-env");
+    expect(env.PORT).toBe(3000);
+    expect(getEnvProvenance(env)?.SECRET_KEY).toEqual({ type: "process.env" });
+  });
+
+  it("should give secrets sources the runtime environment", async () => {
+    setupProcessEnv({ SECRET_KEY: "from-process-env" });
+    mockDotenvFiles({});
+    const source = jest.fn<SecretSourceFunction>(async () => ({
+      API_URL: "https://secrets.example.com",
+      SECRET_KEY: "from-secrets-source",
+    }));
+    const env = await createEnvAsync({
+      schema: testSchema,
+      secretsSources: [source],
+      runtimeEnv: { API_URL: "https://runtime.example.com" },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    const context = source.mock.calls[0][0];
+    expect(context.runtimeEnv).toEqual({
+      API_URL: "https://runtime.example.com",
+    });
+    expect(context.missingKeys).toContain("SECRET_KEY");
+    expect(context.missingKeys).not.toContain("API_URL");
+    expect(env.API_URL).toBe("https://runtime.example.com");
+    expect(env.SECRET_KEY).toBe("from-secrets-source");
+  });
+});
+
+describe("File System", () => {
+  const files: Record<string, string> = {
+    "./.env": "BASE_CONTENT",
+    "./.env.production": "PRODUCTION_CONTENT",
+  };
+  // What dotenv.parse returns for each file's content
+  const parsed: Record<string, Record<string, string>> = {
+    BASE_CONTENT: { API_URL: "https://base.example.com", PORT: "3000" },
+    PRODUCTION_CONTENT: { API_URL: "https://prod.example.com" },
+  };
+  const memoryFileSystem = {
+    readFile: jest.fn((path: string) => files[path]),
+    exists: jest.fn((path: string) => path in files),
+  };
+
+  beforeEach(() => {
+    dotenvParseSpy.mockImplementation((content) => ({
+      ...parsed[String(content)],
+    }));
+  });
+
+  it("should load .env files through the fileSystem option", () => {
+    setupProcessEnv({
+      NODE_ENV: "production",
+      SECRET_KEY: "longenoughsecretkey",
+    });
+    const env = createEnv({
+      schema: testSchema,
+      fileSystem: memoryFileSystem,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.API_URL).toBe("https://prod.example.com");
+    expect(env.PORT).toBe(3000);
+    expect(getEnvProvenance(env)?.API_URL).toEqual({
+      type: "dotenv",
+      path: "./.env.production",
+    });
+    expect(readFileSyncSpy).not.toHaveBeenCalled();
+  });
+
+  it("should skip missing files without reading them", () => {
+    setupProcessEnv({
+      API_URL: "https://required.com",
+      SECRET_KEY: "longenoughsecretkey",
+    });
+    createEnv({
+      schema: testSchema,
+      dotEnvPath: ["./.env", "./.env.local"],
+      fileSystem: memoryFileSystem,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(memoryFileSystem.exists).toHaveBeenCalledWith("./.env.local");
+    expect(memoryFileSystem.readFile).toHaveBeenCalledTimes(1);
+    expect(memoryFileSystem.readFile).toHaveBeenCalledWith("./.env");
+  });
+
+  it("should throw a file-load error when readFile fails", () => {
+    setupProcessEnv({});
+    let error: EnvValidationError | undefined;
+    try {
+      createEnv({
+        schema: testSchema,
+        fileSystem: {
+          readFile: () => {
+            throw new Error("disk on fire");
+          },
+          exists: () => true,
+        },
+        _internalDotenvExpand: mockedDotenvExpand,
+      });
+    } catch (e) {
+      error = e as EnvValidationError;
+    }
+    expect(error).toBeInstanceOf(EnvValidationError);
+    expect(error?.phase).toBe("file-load");
+    expect(error?.message).toBe(
+      "❌ Failed to load environment file from ./.env: disk on fire"
+    );
+  });
+
+  it("should accept an asynchronous fileSystem in createEnvAsync", async () => {
+    setupProcessEnv({ SECRET_KEY: "longenoughsecretkey" });
+    const env = await createEnvAsync({
+      schema: testSchema,
+      fileSystem: {
+        readFile: async (path) => files[path],
+        exists: async (path) => path in files,
+      },
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.API_URL).toBe("https://base.example.com");
+    expect(readFileSyncSpy).not.toHaveBeenCalled();
+  });
+});
+
+// --- Sensitive Value Tests ---
+describe("Sensitive Values", () => {
+  it("should redact sensitive keys when logging, serializing or stringifying", () => {
+    setupProcessEnv({ SECRET_KEY: "super-secret-key" });
+    mockDotenvFiles({ "./.env": { API_URL: "https://api.example.com" } });
+    const env = createEnv({
+      schema: testSchema,
+      sensitive: ["SECRET_KEY", "OPTIONAL_VAR"],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+
+    expect(env.SECRET_KEY).toBe("super-secret-key"); // Still readable
+    expect(JSON.parse(JSON.stringify(env))).toEqual(
+      expect.objectContaining({
+        SECRET_KEY: "[REDACTED]",
+        API_URL: "https://api.example.com",
+      })
+    );
+    expect(JSON.parse(JSON.stringify(env))).not.toHaveProperty("OPTIONAL_VAR");
+    expect(inspect(env)).toContain("SECRET_KEY: '[REDACTED]'");
+    expect(inspect(env)).not.toContain("super-secret-key");
+    expect(String(env)).toContain('"SECRET_KEY":"[REDACTED]"');
+    expect(Object.keys(env)).not.toContain("toJSON");
+    expect({ ...env }.SECRET_KEY).toBe("super-secret-key");
+  });
+
+  it("should treat keys marked with sensitive() in the schema as sensitive", async () => {
+    const schema = z.object({
+      TOKEN: sensitive(z.string()).optional(),
+      PUBLIC: z.string(),
+    });
+    setupProcessEnv({ TOKEN: "token-value", PUBLIC: "visible" });
+    mockDotenvFiles({});
+    const env = await createEnvAsync({
+      schema,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(JSON.stringify(env)).toBe(
+      '{"TOKEN":"[REDACTED]","PUBLIC":"visible"}'
+    );
+  });
+
+  it("should keep the sensitive() mark through chained methods", () => {
+    const schema = z.object({
+      DESCRIBED: sensitive(z.string()).describe("API key"),
+      CHECKED: sensitive(z.string()).min(3),
+      TRANSFORMED: sensitive(z.string())
+        .describe("Token")
+        .transform((value) => value.trim()),
+    });
+    setupProcessEnv({
+      DESCRIBED: "described-secret",
+      CHECKED: "checked-secret",
+      TRANSFORMED: "transformed-secret",
+    });
+    mockDotenvFiles({});
+    const env = createEnv({
+      schema,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(env.DESCRIBED).toBe("described-secret");
+    expect(JSON.parse(JSON.stringify(env))).toEqual({
+      DESCRIBED: "[REDACTED]",
+      CHECKED: "[REDACTED]",
+      TRANSFORMED: "[REDACTED]",
+    });
+  });
+
+  it("should not add redaction when there are no sensitive keys", () => {
+    setupProcessEnv({ SECRET_KEY: "super-secret-key" });
+    mockDotenvFiles({ "./.env": { API_URL: "https://api.example.com" } });
+    const env = createEnv({
+      schema: testSchema,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(JSON.stringify(env)).toContain("super-secret-key");
+  });
+
+  it("should never echo sensitive values in validation errors", () => {
+    const schema = z.object({
+      API_MODE: sensitive(z.enum(["live", "test"])),
+      OTHER: z.string().refine((value) => value === "ok", {
+        message: "Must be ok",
+      }),
+    });
+    setupProcessEnv({ API_MODE: "sk_live_abc123", OTHER: "no" });
+    mockDotenvFiles({});
+    const error = captureError(() =>
+      createEnv({ schema, _internalDotenvExpand: mockedDotenvExpand })
+    ) as EnvValidationError;
+    expect(error.message).toContain("received '[REDACTED]'");
+    expect(error.message).not.toContain("sk_live_abc123");
+    expect(JSON.stringify(error)).not.toContain("sk_live_abc123");
+    expect(error.message).toContain("- OTHER: Must be ok");
+  });
+
+  it("should redact sensitive values in explainEnv", async () => {
+    setupProcessEnv({ SECRET_KEY: "super-secret-key" });
+    mockDotenvFiles({ "./.env": { SECRET_KEY: "dotenv-secret-key" } });
+    const { variables } = await explainEnv({
+      schema: testSchema,
+      sensitive: ["SECRET_KEY"],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(variables.SECRET_KEY).toEqual({
+      candidates: [
+        { source: { type: "process.env" }, value: "[REDACTED]" },
+        { source: { type: "dotenv", path: "./.env" }, value: "[REDACTED]" },
+      ],
+      source: { type: "process.env" },
+      value: "[REDACTED]",
+      expanded: false,
+    });
+  });
+});
+
+// --- watchEnv Tests ---
+describe("watchEnv", () => {
+  type WatchListener = (eventType: string, filename: string | null) => void;
+  const watchSpy = jest.spyOn(fs, "watch");
+  let watched: { directory: string; listener: WatchListener }[];
+  let closeSpy: jest.Mock;
+
+  const emitFileChange = (filePath: string) => {
+    const directory = path.dirname(path.resolve(filePath));
+    for (const entry of watched.filter((w) => w.directory === directory)) {
+      entry.listener("change", path.basename(filePath));
+    }
+    jest.advanceTimersByTime(100);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    watched = [];
+    closeSpy = jest.fn();
+    watchSpy.mockImplementation(((
+      directory: string,
+      listener: WatchListener
+    ) => {
+      watched.push({ directory, listener });
+      return { on: jest.fn(), close: closeSpy } as unknown as fs.FSWatcher;
+    }) as unknown as typeof fs.watch);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    watchSpy.mockRestore();
+  });
+
+  it("should watch every resolved path, including the environment-specific file", () => {
+    setupProcessEnv({ NODE_ENV: "development" });
+    mockDotenvFiles({
+      "./.env": { API_URL: "https://a.com", SECRET_KEY: "secret-key-1" },
+    });
+    const watcher = watchEnv({
+      schema: testSchema,
+      dotEnvPath: ["./.env", "./config/.env.local"],
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    expect(watched.map((w) => w.directory).sort()).toEqual(
+      [path.resolve("."), path.resolve("config")].sort()
+    );
+    expect(watcher.env.API_URL).toBe("https://a.com");
+    watcher.close();
+    expect(closeSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reject the fileSystem option, since files are watched on disk", () => {
+    const fileSystem = { readFile: () => "", exists: () => false };
+    expect(() =>
+      watchEnv({
+        schema: testSchema,
+        // @ts-expect-error -- watchEnv only supports the files on disk
+        fileSystem,
+      })
+    ).toThrow(
+      "watchEnv watches .env files on disk and does not support the 'fileSystem' option."
+    );
+    expect(watched).toEqual([]);
+  });
+
+  it("should emit the new environment and a key-level diff after a change", () => {
+    setupProcessEnv({ NODE_ENV: "development" });
+    mockDotenvFiles({
+      "./.env": { API_URL: "https://a.com", SECRET_KEY: "secret-key-1" },
+    });
+    const onChange = jest.fn<EnvChangeListener<z.infer<typeof testSchema>>>();
+    const watcher = watchEnv(
+      { schema: testSchema, _internalDotenvExpand: mockedDotenvExpand },
+      onChange
+    );
+
+    mockDotenvFiles({
+      "./.env": { API_URL: "https://a.com", SECRET_KEY: "secret-key-1" },
+      "./.env.development": { PORT: "3000", OPTIONAL_VAR: "new" },
+    });
+    emitFileChange("./.env.development");
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    const [env, changes] = onChange.mock.calls[0];
+    expect(env).toBe(watcher.env);
+    expect(watcher.env.PORT).toBe(3000);
+    expect(changes).toEqual([
+      { key: "PORT", previous: 8080, current: 3000 },
+      { key: "OPTIONAL_VAR", previous: undefined, current: "new" },
+    ]);
+    expect(getEnvProvenance(watcher.env)?.PORT).toEqual({
+      type: "dotenv",
+      path: "./.env.development",
+    });
+    watcher.close();
+  });
+
+  it("should debounce bursts and ignore unrelated files and unchanged values", () => {
+    mockDotenvFiles({
+      "./.env": { API_URL: "https://a.com", SECRET_KEY: "secret-key-1" },
+    });
+    const onChange = jest.fn<EnvChangeListener<z.infer<typeof testSchema>>>();
+    const watcher = watchEnv(
+      { schema: testSchema, _internalDotenvExpand: mockedDotenvExpand },
+      onChange
+    );
+    readFileSyncSpy.mockClear();
+
+    emitFileChange("./package.json");
+    expect(readFileSyncSpy).not.toHaveBeenCalled();
+
+    watched[0].listener("change", ".env");
+    watched[0].listener("rename", ".env");
+    jest.advanceTimersByTime(100);
+    expect(readFileSyncSpy).toHaveBeenCalledTimes(1); // Reloaded once
+    expect(onChange).not.toHaveBeenCalled(); // Nothing changed
+    watcher.close();
+  });
+
+  it("should emit an error and keep the last valid environment on an invalid edit", () => {
+    mockDotenvFiles({
+      "./.env": { API_URL: "https://a.com", SECRET_KEY: "secret-key-1" },
+    });
+    const onChange = jest.fn<EnvChangeListener<z.infer<typeof testSchema>>>();
+    const onError = jest.fn();
+    const watcher = watchEnv(
+      { schema: testSchema, _internalDotenvExpand: mockedDotenvExpand },
+      onChange
+    );
+    watcher.on("error", onError);
+    const previous = watcher.env;
+
+    mockDotenvFiles({
+      "./.env": { API_URL: "not-a-url", SECRET_KEY: "secret-key-1" },
+    });
+    emitFileChange("./.env");
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledTimes(1);
+    const error = onError.mock.calls[0][0] as EnvValidationError;
+    expect(error).toBeInstanceOf(EnvValidationError);
+    expect(error.phase).toBe("validation");
+    expect(watcher.env).toBe(previous);
+    watcher.close();
+  });
+
+  it("should warn instead of crashing when no error listener is registered", () => {
+    mockDotenvFiles({
+      "./.env": { API_URL: "https://a.com", SECRET_KEY: "secret-key-1" },
+    });
+    const watcher = watchEnv({
+      schema: testSchema,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    mockDotenvFiles({ "./.env": { API_URL: "not-a-url" } });
+    emitFileChange("./.env");
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "⚠️ [schema-env] Warning: Failed to reload the environment, keeping the previous values."
+      )
+    );
+    watcher.close();
+  });
+
+  it("should stop reloading after close", () => {
+    mockDotenvFiles({
+      "./.env": { API_URL: "https://a.com", SECRET_KEY: "secret-key-1" },
+    });
+    const watcher = watchEnv({
+      schema: testSchema,
+      _internalDotenvExpand: mockedDotenvExpand,
+    });
+    watched[0].listener("change", ".env");
+    watcher.close();
+    readFileSyncSpy.mockClear();
+    jest.advanceTimersByTime(100);
+    emitFileChange("./.env");
+    expect(readFileSyncSpy).not.toHaveBeenCalled();
+  });
+
+  it("should throw like createEnv when the initial load is invalid", () => {
+    mockDotenvFiles({});
+    expect(() =>
+      watchEnv({
+        schema: testSchema,
+        _internalDotenvExpand: mockedDotenvExpand,
+      })
+    ).toThrow(EnvValidationError);
+    expect(watched).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+// File: tests/vault.test.ts
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { vaultKvSource } from "../src/vault.js";
+import type { SecretSourceContext } from "../src/index.js";
+
+// --- Vault Stub ---
+interface StubRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+const secrets: Record<string, unknown> = {
+  "/v1/secret/data/myapp": {
+    data: {
+      data: { DB_PASSWORD: "v2-password", PORT: 5432, TAGS: ["a", "b"] },
+      metadata: { version: 3 },
+    },
+  },
+  "/v1/kv/legacy/app": { data: { password: "v1-password", unused: "x" } },
+};
+
+let server: http.Server;
+let address: string;
+let requests: StubRequest[];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    requests.push({ url: req.url ?? "", headers: req.headers });
+    const secret = secrets[req.url ?? ""];
+    res.setHeader("Content-Type", "application/json");
+    if (req.headers["x-vault-token"] !== "test-token") {
+      res.statusCode = 403;
+      res.end(JSON.stringify({ errors: ["permission denied"] }));
+    } else if (secret === undefined) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ errors: [] }));
+    } else {
+      res.end(JSON.stringify(secret));
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  address = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// --- Environment Setup Helper ---
+let originalProcessEnv: NodeJS.ProcessEnv;
+
+beforeEach(() => {
+  requests = [];
+  originalProcessEnv = { ...process.env };
+  delete process.env.VAULT_ADDR;
+  delete process.env.VAULT_TOKEN;
+  delete process.env.VAULT_NAMESPACE;
+});
+
+afterEach(() => {
+  process.env = originalProcessEnv;
+});
+
+const context = (
+  dotenv: Record<string, string> = {},
+  signal = new AbortController().signal
+): SecretSourceContext => ({
+  dotenv,
+  runtimeEnv: { ...process.env },
+  schemaKeys: [],
+  missingKeys: [],
+  signal,
+});
+
+describe("vaultKvSource", () => {
+  it("should read every field of a KV v2 secret", async () => {
+    const source = vaultKvSource({
+      address: `${address}/`,
+      token: "test-token",
+      path: "/myapp",
+    });
+    await expect(source(context())).resolves.toEqual({
+      DB_PASSWORD: "v2-password",
+      PORT: "5432",
+      TAGS: '["a","b"]',
+    });
+    expect(requests[0].url).toBe("/v1/secret/data/myapp");
+    expect(requests[0].headers["x-vault-namespace"]).toBeUndefined();
+  });
+
+  it("should read a KV v1 secret and map fields to env keys", async () => {
+    const source = vaultKvSource({
+      address,
+      token: "test-token",
+      mount: "kv",
+      path: "legacy/app",
+      version: 1,
+      fields: { password: "DB_PASSWORD", missing: "OTHER" },
+    });
+    await expect(source(context())).resolves.toEqual({
+      DB_PASSWORD: "v1-password",
+    });
+    expect(source.name).toBe("vault");
+  });
+
+  it("should default to VAULT_ADDR, VAULT_TOKEN and VAULT_NAMESPACE", async () => {
+    process.env.VAULT_TOKEN = "test-token";
+    process.env.VAULT_NAMESPACE = "team-a";
+    const source = vaultKvSource({ path: "myapp" });
+    await source(context({ VAULT_ADDR: address })); // From the .env files
+    expect(requests[0].headers["x-vault-namespace"]).toBe("team-a");
+  });
+
+  it("should reject with Vault's errors, without leaking the token", async () => {
+    const denied = vaultKvSource({
+      address,
+      token: "bad-token",
+      path: "myapp",
+    });
+    const error = await denied(context()).catch((e: Error) => e);
+    expect((error as Error).message).toBe(
+      "Vault responded with 403 for secret/myapp: permission denied"
+    );
+    expect((error as Error).message).not.toContain("bad-token");
+
+    const missing = vaultKvSource({
+      address,
+      token: "test-token",
+      path: "nope",
+    });
+    await expect(missing(context())).rejects.toThrow(
+      "Vault responded with 404 for secret/nope"
+    );
+  });
+
+  it("should reject when the address or token is missing", async () => {
+    await expect(vaultKvSource({ path: "myapp" })(context())).rejects.toThrow(
+      "Vault address is not set"
+    );
+    await expect(
+      vaultKvSource({ address, path: "myapp" })(context())
+    ).rejects.toThrow("Vault token is not set");
+  });
+
+  it("should cancel the request through the signal", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const source = vaultKvSource({
+      address,
+      token: "test-token",
+      path: "myapp",
+    });
+    await expect(source(context({}, controller.signal))).rejects.toThrow();
+    expect(requests).toHaveLength(0);
+  });
+});